@@ -1,93 +1,283 @@
-import { Chess, Square } from 'chess.js';
-import { Circle } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { Color, DEFAULT_POSITION, PieceSymbol, Square } from 'chess.js';
+import { Bot, Circle, Settings as SettingsIcon, Users } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import ChessBoardPanel from './components/ChessBoardPanel';
+import PuzzleTrainer from './components/PuzzleTrainer';
+import SettingsPanel from './components/SettingsPanel';
 import SidePanel from './components/SidePanel';
-import { getBestMoveOnline } from './stockfishAPI';
+import StrengthSelect from './components/StrengthSelect';
+import TimeControlPicker from './components/TimeControlPicker';
+import { CLASSIFICATION_STYLES } from './components/moveClassification';
+import { createCoach, MoveContext } from './coach';
+import {
+  createEngine,
+  DEFAULT_STRENGTH_PROFILE_ID,
+  EngineError,
+  isAbortError,
+  toWhiteScore,
+  uciToMove
+} from './engine';
+import {
+  CHESS960_POSITIONS,
+  chess960StartFen,
+  moveTargets,
+  playMove,
+  randomChess960Number
+} from './game/chess960';
+import { stopClock, TimeControl } from './game/clock';
+import { checkedKingSquare, findThreats, moveSquares, SquarePair } from './game/highlights';
+import { formatMoveSequence, pvToSan } from './game/notation';
+import { bookMoves, identifyOpening } from './game/openings';
+import { downloadPgn, exportPgn, formatPgnDate, importPgn } from './game/pgn';
+import { moveTreeFromLine, pathTo } from './game/moveTree';
+import { DEFAULT_PLAYER_MODE, getPlayerMode, PLAYER_MODES } from './game/players';
+import { describeOutcome, draw, savedOutcome, win } from './game/result';
+import { GameReview, MoveClassification, reviewGame } from './game/review';
+import { answerDrawOffer, isManualSide as isManualSessionSide } from './game/session';
+import { announceMove, describePieces } from './game/speech';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import { useBoardDrawings } from './hooks/useBoardDrawings';
+import { useEngineAnalysis } from './hooks/useEngineAnalysis';
+import { useGameLibrary } from './hooks/useGameLibrary';
+import { useGameBroadcast } from './hooks/useGameBroadcast';
+import { useGameSession } from './hooks/useGameSession';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useMoveSounds } from './hooks/useMoveSounds';
+import { DEFAULT_SETTINGS, Settings, useSettings } from './hooks/useSettings';
+import { loadSession, SavedGame, SavedSession, saveSession, userColorOf } from './storage/gameDatabase';
+import { spectatorUrl, SpectatorSnapshot } from './sync/gameChannel';
+
+const ANALYSIS_DEPTH = 20;
+const REVIEW_DEPTH = 14;
+const SESSION_SAVE_DELAY_MS = 500;
+const HINT_DEPTH = 16;
+/** Plies shown as the opening of a saved game. */
+const OPENING_PLIES = 6;
+const API_KEY_STORAGE_KEY = 'chess-companion.geminiApiKey';
+
+/** The session as stored: its clock stopped, to run again once it is restored. */
+const stoppedSession = (session: SavedSession): SavedSession => ({
+  ...session,
+  clock: session.clock && stopClock(session.clock, Date.now()),
+});
 
 function App() {
-  const [game, setGame] = useState(new Chess());
-  const [moveHistory, setMoveHistory] = useState<string[]>([]);
-  const [currentPosition, setCurrentPosition] = useState(game.fen());
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [playerColor, setPlayerColor] = useState<'w' | 'b' | null>(null);
+  const { settings, updateSettings } = useSettings();
+  const [showSettings, setShowSettings] = useState(false);
   const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
   const [possibleMoves, setPossibleMoves] = useState<Square[]>([]);
-  const [lastMove, setLastMove] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [currentMoveIndex, setCurrentMoveIndex] = useState(-1);
-  const [gameEndMessage, setGameEndMessage] = useState<string | null>(null);
-  const [positions, setPositions] = useState<string[]>([]);
   const [flipBoard, setFlipBoard] = useState<boolean>(false);
+  const [isSettingUp, setIsSettingUp] = useState(false);
+  // The puzzle trainer replaces the game on screen; the game waits, clocks stopped, until it is closed.
+  const [isTraining, setIsTraining] = useState(false);
+  // Manual promotion chosen by clicking, waiting for the piece picker.
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square } | null>(null);
+  const [engine] = useState(() => createEngine());
+  // Move suggested on request, for the position it was asked in.
+  const [hint, setHint] = useState<{ fen: string; san: string; move: SquarePair } | null>(null);
+  const [isHintPending, setIsHintPending] = useState(false);
+  const [isDrawOfferPending, setIsDrawOfferPending] = useState(false);
+  // Live node where the engine last turned a draw offer down, so it is not asked again there.
+  const [drawDeclinedAt, setDrawDeclinedAt] = useState<string | null>(null);
+  // Chess960 start position for new games: its number, a new random one each game, or null for standard chess.
+  const [chess960, setChess960] = useState<number | "random" | null>(null);
+  // Time control for new games; null plays without clocks.
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
+  // Engine settings start from the saved defaults and can be changed for the session.
+  const [engineUsesClock, setEngineUsesClock] = useState(settings.engineUsesClock);
+  const [engineUsesBook, setEngineUsesBook] = useState(settings.engineUsesBook);
+  const { session, view, dispatch, isThinking: isAnalyzing, clockNow, cancelAutoMove } = useGameSession(engine, {
+    active: !isSettingUp && !isTraining,
+    engineUsesBook,
+    engineUsesClock,
+    defaultStrengthId: settings.strengthId,
+    onError: setErrorMessage,
+  });
+  const { moveTree, playerColor, mode: playerMode, strengthId, opponentStrengthId, clock, declaredOutcome, autoPaused, gameId } = session;
+  // Nothing is saved until the previous session has been restored, so it is not overwritten.
+  const [isRestored, setIsRestored] = useState(false);
+  // Game id and final node last written to the library.
+  const savedGameRef = useRef<string | null>(null);
+  const library = useGameLibrary();
+  const saveToLibrary = library.save;
+  const [apiKey, setApiKeyState] = useState(() => localStorage.getItem(API_KEY_STORAGE_KEY) ?? '');
+  const [showApiInput, setShowApiInput] = useState(false);
+  const coach = useMemo(() => createCoach(apiKey || null), [apiKey]);
+  // Local engines share one Stockfish worker; each wrapper keeps its own timeouts and cancellation.
+  const [analysisEngine] = useState(() => createEngine());
+  const [analysisEnabled, setAnalysisEnabled] = useState(settings.analysisEnabled);
+  const [multiPv, setMultiPv] = useState(settings.multiPv);
+  const [reviewEngine] = useState(() => createEngine());
+  const [review, setReview] = useState<GameReview | null>(null);
+  // Last node of the line the review was made for.
+  const [reviewedLineEnd, setReviewedLineEnd] = useState<string | null>(null);
+  const [reviewProgress, setReviewProgress] = useState<number | null>(null);
+  // Aborted whenever the game is reset so late engine answers are never applied.
+  const sessionRef = useRef<AbortController>(new AbortController());
+  const moveInputRef = useRef<HTMLInputElement>(null);
+
+  // The board shows the tree's current node; the flat history views follow the line through it.
+  const { line, positions, moveHistory, currentMoveIndex, currentNode, isLive, canRedo, game, autoColors, engineProfiles, liveOutcome, outcome, drawClaim, actingSide } = view;
+  const currentPosition = currentNode.fen;
+  const lastMove = currentNode.san;
+  const flagged = clock?.flagged ?? null;
+  const isLiveGameOver = liveOutcome !== null;
+  const isGameOver = outcome !== null;
+  const gameEndMessage = outcome ? describeOutcome(outcome) : null;
+  const openingInfo = useMemo(() => identifyOpening(positions.slice(0, currentMoveIndex + 1)), [positions, currentMoveIndex]);
+  const lineOpening = useMemo(() => identifyOpening(positions), [positions]);
+  const bookExitNodeId = lineOpening.leftBookAt !== null ? line[lineOpening.leftBookAt + 1].id : null;
+  const isReviewCurrent = review !== null && reviewedLineEnd === line[line.length - 1].id;
+
+  const analysis = useEngineAnalysis(analysisEngine, currentPosition, {
+    enabled: analysisEnabled && playerColor !== null && !isSettingUp && !isTraining,
+    multiPv,
+    depth: ANALYSIS_DEPTH,
+  });
+  const evaluation = analysisEnabled
+    ? (analysis.fen && analysis.lines[0] ? toWhiteScore(analysis.lines[0].score, analysis.fen) : null)
+    : undefined;
 
-  const autoColor = playerColor;
-  const manualColor = playerColor ? (playerColor === 'w' ? 'b' : 'w') : null;
+  const isManualSide = (color: Color) => isManualSessionSide(session, color);
+  const isEngineVsEngine = autoColors.length === 2;
+  const boardHint = hint && hint.fen === currentPosition ? hint : null;
+  const setStrengthId = (id: string) => dispatch({ type: "set-strength", strengthId: id });
+  const setOpponentStrengthId = (id: string) => dispatch({ type: "set-opponent-strength", strengthId: id });
 
+  useMoveSounds(moveTree, gameId, settings.moveSounds);
+
+  // Every move, the engine's included, is announced for screen readers, then the result.
+  const { message: announcement, announce } = useAnnouncer();
+  const announcedRef = useRef({ gameId, nodeId: currentNode.id, gameEndMessage });
   useEffect(() => {
-    const makeAutoMove = async () => {
-      if (
-        autoColor &&
-        game.turn() === autoColor &&
-        !game.isGameOver() &&
-        !isAnalyzing
-      ) {
-        await calculateAndPlayBestMove();
-      }
-    };
-    makeAutoMove();
-
-    if (game.isGameOver()) {
-      let message = '';
-      if (game.isCheckmate()) {
-        const winner = game.turn() === 'w' ? 'Black' : 'White';
-        message = `Checkmate! ${winner} wins! 🏆`;
-      } else if (game.isDraw()) {
-        message = "It's a draw! 🤝";
-      } else if (game.isStalemate()) {
-        message = "Stalemate! Game is drawn! 🤝";
-      } else if (game.isThreefoldRepetition()) {
-        message = "Draw by repetition! 🔄";
-      } else if (game.isInsufficientMaterial()) {
-        message = "Draw by insufficient material! ⚖️";
-      }
-      setGameEndMessage(message);
-    } else {
-      setGameEndMessage(null);
+    const previous = announcedRef.current;
+    announcedRef.current = { gameId, nodeId: currentNode.id, gameEndMessage };
+    const moved = previous.gameId !== gameId || previous.nodeId !== currentNode.id;
+    if (!moved) {
+      if (gameEndMessage && gameEndMessage !== previous.gameEndMessage) announce(gameEndMessage);
+      return;
     }
-  }, [game, moveHistory, autoColor, isAnalyzing]);
+    const parent = currentNode.parentId ? moveTree.nodes[currentNode.parentId] : null;
+    const move = parent && currentNode.san ? announceMove(currentNode.san, parent.fen.split(" ")[1] as Color) : null;
+    const text = !move
+      ? "Start position"
+      : previous.gameId === gameId && parent?.id === previous.nodeId ? move : `Position after ${move}`;
+    announce(gameEndMessage ? `${text}. ${gameEndMessage}` : text);
+  }, [gameId, currentNode, moveTree.nodes, gameEndMessage, announce]);
 
-  const calculateAndPlayBestMove = async () => {
-    if (game.isGameOver()) return;
-    setIsAnalyzing(true);
-    try {
-      const bestMove = await getBestMoveOnline(game.fen(), 15);
-      console.log('Online API best move:', bestMove);
-      if (!bestMove) {
-        setErrorMessage("Failed to get AI move suggestion");
-        return;
-      }
-      const newGame = new Chess(game.fen());
-      const moveResult = newGame.move(bestMove);
-      if (!moveResult) {
-        setErrorMessage("Invalid AI move");
-        return;
-      }
-      setGame(newGame);
-      setCurrentPosition(newGame.fen());
-      setMoveHistory(prev => [...prev, moveResult.san]);
-      setPositions(prev => [...prev, newGame.fen()]);
-      setCurrentMoveIndex(prev => prev + 1);
-      setLastMove(moveResult.san);
-    } catch (error) {
-      console.error("Error calculating move:", error);
-      setErrorMessage("Error calculating move");
-    } finally {
-      setIsAnalyzing(false);
-      setSelectedSquare(null);
-      setPossibleMoves([]);
-    }
+  /**
+   * Saves changed settings. New engine defaults also apply to the game on screen.
+   */
+  const changeSettings = (change: Partial<Settings>) => {
+    updateSettings(change);
+    if (change.engineUsesBook !== undefined) setEngineUsesBook(change.engineUsesBook);
+    if (change.engineUsesClock !== undefined) setEngineUsesClock(change.engineUsesClock);
+    if (change.analysisEnabled !== undefined) setAnalysisEnabled(change.analysisEnabled);
+    if (change.multiPv !== undefined) setMultiPv(change.multiPv);
+    if (change.strengthId !== undefined) setStrengthId(change.strengthId);
   };
 
+  useEffect(() => {
+    loadSession()
+      .then(saved => {
+        if (!saved) return;
+        // A finished game was written to the library before the session holding it.
+        savedGameRef.current = `${saved.gameId}:${saved.moveTree.liveId}`;
+        setTimeControl(saved.timeControl);
+        dispatch({
+          type: "load",
+          session: {
+            moveTree: saved.moveTree,
+            playerColor: saved.playerColor,
+            mode: saved.mode ?? DEFAULT_PLAYER_MODE,
+            strengthId: saved.strengthId,
+            opponentStrengthId: saved.opponentStrengthId ?? DEFAULT_STRENGTH_PROFILE_ID,
+            clock: saved.clock,
+            declaredOutcome: saved.declaredOutcome ?? null,
+            autoPaused: false,
+            gameId: saved.gameId,
+          },
+        });
+      })
+      .catch(error => console.warn("Could not restore the saved game:", error))
+      .finally(() => setIsRestored(true));
+  }, [dispatch]);
+
+  const savedSession = useMemo<SavedSession>(() => ({
+    moveTree,
+    playerColor,
+    strengthId,
+    mode: playerMode,
+    opponentStrengthId,
+    timeControl,
+    clock,
+    declaredOutcome,
+    gameId,
+  }), [moveTree, playerColor, playerMode, strengthId, opponentStrengthId, timeControl, clock, declaredOutcome, gameId]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    const timer = setTimeout(() => {
+      saveSession(stoppedSession(savedSession))
+        .catch(error => console.warn("Could not save the game in progress:", error));
+    }, SESSION_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isRestored, savedSession]);
+
+  // Finished games go to the library, again under the same id if a takeback changes the ending.
+  useEffect(() => {
+    const savedKey = `${gameId}:${moveTree.liveId}`;
+    if (!isRestored || !playerColor || !liveOutcome || savedGameRef.current === savedKey) return;
+    savedGameRef.current = savedKey;
+
+    const [root, ...moves] = pathTo(moveTree, moveTree.liveId);
+    const moveHistory = moves.map(node => node.san as string);
+    const { opening } = identifyOpening([root, ...moves].map(node => node.fen));
+    const date = new Date();
+    saveToLibrary({
+      id: gameId,
+      date: date.toISOString(),
+      startFen: root.fen,
+      moveHistory,
+      result: liveOutcome.result,
+      termination: liveOutcome.termination,
+      userColor: getPlayerMode(playerMode).choosesColor ? playerColor : undefined,
+      strengthId,
+      opponentStrengthId: playerMode === "engine-vs-engine" ? opponentStrengthId : undefined,
+      mode: playerMode,
+      timeControl: clock?.timeControl ?? null,
+      opening: opening
+        ? `${opening.eco} ${opening.name}`
+        : formatMoveSequence(root.fen, moveHistory.slice(0, OPENING_PLIES)),
+      pgn: exportPgn({
+        startFen: root.fen,
+        moveHistory,
+        engines: engineProfiles,
+        timeControl: clock?.timeControl,
+        outcome: liveOutcome,
+        date,
+      }),
+    });
+  }, [isRestored, gameId, moveTree, playerColor, playerMode, engineProfiles, liveOutcome, strengthId, opponentStrengthId, clock, saveToLibrary]);
+
+  // Engine moves and takebacks leave a stale selection behind.
+  useEffect(() => {
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+  }, [moveTree.liveId]);
+
+  /**
+   * Cancels any engine search belonging to the current game.
+   */
+  const endEngineSession = () => {
+    cancelAutoMove();
+    sessionRef.current.abort();
+    sessionRef.current = new AbortController();
+    setReview(null);
+    setReviewedLineEnd(null);
+    setReviewProgress(null);
+  };
 
   const isValidManualMove = (): boolean => {
     if (!playerColor) {
@@ -98,12 +288,12 @@ function App() {
       setErrorMessage("Please wait, calculating move...");
       return false;
     }
-    if (game.isGameOver()) {
+    if (isGameOver || flagged) {
       setErrorMessage("Game is over");
       return false;
     }
-    if (manualColor && game.turn() !== manualColor) {
-      setErrorMessage("It is not the opponent’s turn to move");
+    if (!isManualSide(game.turn())) {
+      setErrorMessage(playerMode === 'companion' ? "It is not the opponent’s turn to move" : "It is the engine’s turn to move");
       return false;
     }
     return true;
@@ -115,18 +305,16 @@ function App() {
         setErrorMessage("Invalid move: Missing source or destination");
         return false;
       }
-      if (!manualColor) return false;
       const piece = game.get(from);
       if (!piece) {
         setErrorMessage("No piece at selected position");
         return false;
       }
-      if (piece.color !== manualColor) {
+      if (!isManualSide(piece.color)) {
         setErrorMessage("You can only move the opponent’s pieces manually");
         return false;
       }
-      const legalMoves = game.moves({ square: from, verbose: true });
-      if (!legalMoves.some(move => move.to === to)) {
+      if (!moveTargets(currentPosition, from).includes(to)) {
         setErrorMessage("Illegal move for this piece");
         return false;
       }
@@ -142,36 +330,134 @@ function App() {
     setFlipBoard((prev) => !prev);
   };
 
-  const undoLastManualMove = () => {
-    if (moveHistory.length > 0 && moveHistory.length % 2 === 0) {
-      game.undo();
-      const newHistory = [...moveHistory];
-      newHistory.pop();
-      setMoveHistory(newHistory);
-      setCurrentPosition(game.fen());
-      setPositions((prev) => prev.slice(0, prev.length - 1));
-      setCurrentMoveIndex((prev) => prev - 1);
-    } else {
-      setErrorMessage("No manual move to undo");
+  /**
+   * Moves the game back by `plies` half-moves, e.g. 2 for a full move pair. The moves
+   * stay in the history for redo, and the auto side waits if the takeback lands on its turn.
+   */
+  const takeBackMoves = (plies: number) => {
+    if (moveTree.liveId === moveTree.rootId) {
+      setErrorMessage("No move to take back");
+      return;
     }
+    cancelAutoMove();
+    dispatch({ type: "take-back", plies });
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    setErrorMessage(null);
   };
 
+  const redoMove = () => {
+    if (!canRedo) {
+      setErrorMessage("No move to redo");
+      return;
+    }
+    cancelAutoMove();
+    dispatch({ type: "redo" });
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    setErrorMessage(null);
+  };
+
+  /**
+   * Resumes the game from the position on the board; the auto side moves if it is its turn.
+   * Moves already played from here are kept as the main line until a different one is chosen.
+   */
+  const playFromHere = () => {
+    cancelAutoMove();
+    dispatch({ type: "play-from-here" });
+    setErrorMessage(null);
+  };
 
-  const makeManualMove = (from: Square, to: Square): boolean => {
+  /**
+   * Stops engine vs engine play until it is resumed.
+   */
+  const pauseEngines = () => {
+    cancelAutoMove();
+    dispatch({ type: "pause" });
+  };
+
+  /**
+   * Asks the engine for the best move in the position on the board and shows it as an arrow.
+   */
+  const requestHint = async () => {
+    if (isHintPending || isGameOver || !isManualSide(game.turn())) return;
+    const fen = currentPosition;
+    const { signal } = sessionRef.current;
+    setIsHintPending(true);
+    try {
+      const move = playMove(fen, uciToMove(await engine.bestMove(fen, { depth: HINT_DEPTH, signal })));
+      if (signal.aborted) return;
+      setHint({ fen, san: move.san, move: { from: move.from, to: move.to } });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error getting hint:", error);
+      setErrorMessage(error instanceof EngineError ? error.message : "Could not get a hint");
+    } finally {
+      setIsHintPending(false);
+    }
+  };
+
+  const canDecide = actingSide !== null && !isLiveGameOver;
+
+  const resign = () => {
+    if (!actingSide || !window.confirm(`Resign the game as ${actingSide === 'w' ? 'White' : 'Black'}?`)) return;
+    cancelAutoMove();
+    dispatch({ type: "declare", nodeId: moveTree.liveId, outcome: win(actingSide === 'w' ? 'b' : 'w', 'resignation') });
+  };
+
+  /**
+   * Offers a draw to the other side. An engine takes it when its own evaluation is
+   * level or worse; in hotseat play the other player is asked.
+   */
+  const offerDraw = async () => {
+    if (!actingSide || isDrawOfferPending) return;
+    const receiver: Color = actingSide === 'w' ? 'b' : 'w';
+    const nodeId = moveTree.liveId;
+    if (isManualSide(receiver)) {
+      if (window.confirm(`${actingSide === 'w' ? 'White' : 'Black'} offers a draw. Does ${receiver === 'w' ? 'White' : 'Black'} accept?`)) {
+        dispatch({ type: "declare", nodeId, outcome: draw('agreement') });
+      }
+      return;
+    }
+    const { signal } = sessionRef.current;
+    setIsDrawOfferPending(true);
+    try {
+      const accepted = await answerDrawOffer(engine, session, receiver, signal);
+      if (signal.aborted) return;
+      if (accepted) {
+        cancelAutoMove();
+        dispatch({ type: "declare", nodeId, outcome: draw('agreement') });
+      } else {
+        setDrawDeclinedAt(nodeId);
+      }
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error offering a draw:", error);
+      setErrorMessage(error instanceof EngineError ? error.message : "Could not offer a draw");
+    } finally {
+      setIsDrawOfferPending(false);
+    }
+  };
+
+  const claimDraw = () => {
+    if (!drawClaim) return;
+    cancelAutoMove();
+    dispatch({ type: "declare", nodeId: moveTree.liveId, outcome: draw(drawClaim) });
+  };
+
+
+  const makeManualMove = (from: Square, to: Square, promotion?: PieceSymbol): boolean => {
     if (!isValidManualMove()) return false;
     try {
       if (!validateManualMove(from, to)) return false;
-      const newGame = new Chess(game.fen());
-      const move = newGame.move({ from, to, promotion: "q" });
-      if (!move) {
-        setErrorMessage("Invalid manual move");
+      const isPromotion = !promotion && isPromotionMove(from, to);
+      if (isPromotion && !settings.autoQueen) {
+        setErrorMessage("Choose a piece to promote to");
         return false;
       }
-      setGame(newGame);
-      setCurrentPosition(newGame.fen());
-      setMoveHistory(prev => [...prev, move.san]);
-      setPositions(prev => [...prev, newGame.fen()]);
-      setCurrentMoveIndex(prev => prev + 1);
+      const move = playMove(currentPosition, { from, to, promotion: isPromotion ? 'q' : promotion });
+      // Moving while browsing resumes the game from there; a new move starts a variation.
+      dispatch({ type: "manual-move", move, now: Date.now() });
       setSelectedSquare(null);
       setPossibleMoves([]);
       setErrorMessage(null);
@@ -185,25 +471,21 @@ function App() {
     }
   };
 
+  /**
+   * Selects a piece, or moves the selected one. Clicking a castling rook with the king
+   * selected castles, as does dragging the king onto it.
+   */
   const onSquareClick = (square: Square) => {
-    const clickedPiece = game.get(square);
-    if (clickedPiece && clickedPiece.type === 'r' && clickedPiece.color === manualColor) {
-      if (
-        (manualColor === 'w' && (square === 'a1' || square === 'h1')) ||
-        (manualColor === 'b' && (square === 'a8' || square === 'h8'))
-      ) {
-        const kingSquare = manualColor === 'w' ? 'e1' : 'e8';
-        setSelectedSquare(kingSquare);
-        setPossibleMoves(getMoveOptions(kingSquare));
-        return;
-      }
+    if (selectedSquare !== null && needsPromotionChoice(selectedSquare, square)) {
+      setPendingPromotion({ from: selectedSquare, to: square });
+      return;
     }
 
     if (selectedSquare !== null) {
       const moveSuccessful = makeManualMove(selectedSquare, square);
       if (!moveSuccessful) {
         const piece = game.get(square);
-        if (piece && piece.color === manualColor) {
+        if (piece && isManualSide(piece.color)) {
           setSelectedSquare(square);
           setPossibleMoves(getMoveOptions(square));
           setErrorMessage(null);
@@ -214,7 +496,7 @@ function App() {
       }
     } else {
       const piece = game.get(square);
-      if (piece && piece.color === manualColor) {
+      if (piece && isManualSide(piece.color)) {
         setSelectedSquare(square);
         setPossibleMoves(getMoveOptions(square));
         setErrorMessage(null);
@@ -227,38 +509,159 @@ function App() {
     return makeManualMove(sourceSquare, targetSquare);
   };
 
+  /**
+   * Whether moving the manual side's piece from `from` to `to` is a legal promotion,
+   * in which case the piece picker is shown instead of moving straight away.
+   */
+  const isPromotionMove = (from: Square, to: Square): boolean => {
+    const piece = game.get(from);
+    if (!piece || piece.type !== 'p' || !isManualSide(piece.color)) return false;
+    return game.moves({ square: from, verbose: true }).some(move => move.to === to && move.isPromotion());
+  };
+
+  /** Whether the piece picker is shown for a move; with auto-queen it never is. */
+  const needsPromotionChoice = (from: Square, to: Square) => !settings.autoQueen && isPromotionMove(from, to);
+
+  /**
+   * Called by the board's promotion picker, for both dragged and clicked promotions.
+   * Without a piece the promotion was cancelled.
+   */
+  const onPromotionPieceSelect = (piece?: string, from?: Square, to?: Square): boolean => {
+    const promotionFrom = from ?? pendingPromotion?.from;
+    const promotionTo = to ?? pendingPromotion?.to;
+    setPendingPromotion(null);
+    if (!piece || !promotionFrom || !promotionTo) {
+      setSelectedSquare(null);
+      setPossibleMoves([]);
+      return false;
+    }
+    return makeManualMove(promotionFrom, promotionTo, piece[1].toLowerCase() as PieceSymbol);
+  };
+
   const getMoveOptions = (square: Square): Square[] => {
     if (!isValidManualMove()) return [];
     try {
-      const moves = game.moves({ square, verbose: true });
-      return moves.map(move => move.to as Square);
+      return moveTargets(currentPosition, square);
     } catch (error) {
       console.error("Error getting move options:", error);
       return [];
     }
   };
 
-  const startNewGame = (color: "w" | "b") => {
+  /**
+   * Start position of a new game, as chosen on the start screen.
+   */
+  const newGameFen = () => {
+    if (chess960 === null) return DEFAULT_POSITION;
+    return chess960StartFen(chess960 === "random" ? randomChess960Number() : chess960);
+  };
+
+  const startNewGame = (color: "w" | "b", startFen: string = newGameFen()) => {
     try {
-      const newGame = new Chess();
-      setGame(newGame);
-      setCurrentPosition(newGame.fen());
-      setMoveHistory([]);
-      setPositions([newGame.fen()]);
-      setPlayerColor(color);
+      endEngineSession();
+      dispatch({ type: "start", color, startFen, timeControl, gameId: crypto.randomUUID() });
+      setDrawDeclinedAt(null);
       setSelectedSquare(null);
       setPossibleMoves([]);
-      setIsAnalyzing(false);
-      setLastMove(null);
-      setCurrentMoveIndex(-1);
-      setGameEndMessage(null);
+      setErrorMessage(null);
     } catch (error) {
       console.error("Error starting new game:", error);
     }
   };
 
+  const openPositionSetup = () => {
+    endEngineSession();
+    setIsSettingUp(true);
+  };
+
+  const playFromSetup = (fen: string) => {
+    if (!playerColor) return;
+    setIsSettingUp(false);
+    startNewGame(playerColor, fen);
+  };
+
+  const exportGame = () => {
+    if (!playerColor) return;
+    const pgn = exportPgn({
+      startFen: positions[0],
+      moveHistory,
+      engines: engineProfiles,
+      timeControl: clock?.timeControl,
+      // A resignation or agreed draw only belongs to the game when the line shown ends where it happened.
+      outcome: line[line.length - 1].id === moveTree.liveId ? liveOutcome : undefined,
+    });
+    downloadPgn(pgn, `chess-companion-${formatPgnDate(new Date()).replace(/\./g, '-')}.pgn`);
+  };
+
+  const importGame = (pgn: string): boolean => {
+    try {
+      const imported = importPgn(pgn);
+      endEngineSession();
+      // Imported games have no clock history to resume from.
+      dispatch({ type: "import", startFen: imported.startFen, moveHistory: imported.moveHistory, gameId: crypto.randomUUID() });
+      setDrawDeclinedAt(null);
+      setSelectedSquare(null);
+      setPossibleMoves([]);
+      setErrorMessage(null);
+      return true;
+    } catch (error) {
+      console.error("Error importing PGN:", error);
+      setErrorMessage(`Could not import PGN: ${error instanceof Error ? error.message : 'invalid PGN'}`);
+      return false;
+    }
+  };
+
+  const openSavedGame = (saved: SavedGame) => {
+    endEngineSession();
+    const tree = moveTreeFromLine(saved.startFen, saved.moveHistory);
+    savedGameRef.current = `${saved.id}:${tree.liveId}`;
+    // Keeps resignations and agreed draws, which the moves alone do not show.
+    const ending = savedOutcome(saved.result, saved.termination);
+    dispatch({
+      type: "load",
+      session: {
+        ...session,
+        moveTree: tree,
+        // Modes without a side to pick always start as White.
+        playerColor: userColorOf(saved) ?? "w",
+        mode: saved.mode ?? DEFAULT_PLAYER_MODE,
+        strengthId: saved.strengthId,
+        opponentStrengthId: saved.opponentStrengthId ?? saved.strengthId,
+        clock: null,
+        declaredOutcome: ending && { nodeId: tree.liveId, outcome: ending },
+        // Opened for review: the engine only resumes play when asked to.
+        autoPaused: true,
+        gameId: saved.id,
+      },
+    });
+    setDrawDeclinedAt(null);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    setErrorMessage(null);
+  };
+
+  const deleteSavedGame = (id: string) => {
+    if (window.confirm("Delete this game from the library?")) {
+      library.remove(id);
+    }
+  };
+
+  const exportSavedGames = (games: SavedGame[]) => {
+    downloadPgn(games.map(saved => saved.pgn).join('\n\n'), `chess-companion-library-${formatPgnDate(new Date()).replace(/\./g, '-')}.pgn`);
+  };
+
+  /**
+   * Starts a game from the start screen in the chosen mode. Hints-only games begin with
+   * the analysis off, as it would give the moves away.
+   */
+  const beginGame = (color: "w" | "b") => {
+    if (playerMode === 'hint') setAnalysisEnabled(false);
+    startNewGame(color);
+  };
+
   const changeColor = () => {
-    setPlayerColor(null);
+    endEngineSession();
+    dispatch({ type: "leave" });
   };
 
   const getGameStatus = () => {
@@ -267,55 +670,288 @@ function App() {
     return game.turn() === "w" ? "White to move" : "Black to move";
   };
 
+  const goToPosition = (index: number) => {
+    if (index < 0 || index >= line.length) return;
+    dispatch({ type: "go-to", nodeId: line[index].id });
+  };
+
+  const selectNode = (nodeId: string) => {
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    dispatch({ type: "go-to", nodeId });
+  };
+
+  const promoteLine = (nodeId: string) => {
+    dispatch({ type: "promote-variation", nodeId });
+  };
+
+  const deleteLine = (nodeId: string) => {
+    dispatch({ type: "delete-variation", nodeId });
+  };
+
+  const reviewAnnotations: Record<string, MoveClassification> = isReviewCurrent
+    ? Object.fromEntries(review.moves.map(move => [line[move.ply + 1].id, move.classification]))
+    : {};
+
+  const setApiKey = (key: string) => {
+    if (key) localStorage.setItem(API_KEY_STORAGE_KEY, key);
+    else localStorage.removeItem(API_KEY_STORAGE_KEY);
+    setApiKeyState(key);
+  };
+
+  // The move on the board with what the engine and the review say about it.
+  const parentFen = currentNode.parentId ? moveTree.nodes[currentNode.parentId].fen : null;
+  const bestLine = analysis.fen === currentPosition ? analysis.lines[0] : undefined;
+  const verdict = reviewAnnotations[currentNode.id];
+  const coachContext = useMemo<MoveContext | null>(() => (parentFen && lastMove ? {
+    fen: parentFen,
+    san: lastMove,
+    evaluation: bestLine ? toWhiteScore(bestLine.score, currentPosition) : null,
+    continuation: bestLine ? pvToSan(currentPosition, bestLine.pv) : [],
+    verdict: verdict ? CLASSIFICATION_STYLES[verdict].label : null,
+    opening: openingInfo.opening?.name ?? null,
+  } : null), [parentFen, lastMove, bestLine, currentPosition, verdict, openingInfo]);
+
+  const drawings = useBoardDrawings(currentPosition);
+  const lastMoveSquares = useMemo(() => (parentFen && lastMove ? moveSquares(parentFen, lastMove) : null), [parentFen, lastMove]);
+  const bestMove = useMemo(() => (bestLine?.pv[0] ? uciToMove(bestLine.pv[0]) : null), [bestLine]);
+  const threats = useMemo(() => findThreats(currentPosition), [currentPosition]);
+
+  const startReview = async () => {
+    if (moveHistory.length === 0 || reviewProgress !== null) return;
+    const { signal } = sessionRef.current;
+    const lineEnd = line[line.length - 1].id;
+    setReviewProgress(0);
+    try {
+      const result = await reviewGame(reviewEngine, positions, moveHistory, {
+        depth: REVIEW_DEPTH,
+        signal,
+        onProgress: (done, total) => setReviewProgress(done / total),
+      });
+      if (signal.aborted) return;
+      setReview(result);
+      setReviewedLineEnd(lineEnd);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Error reviewing game:", error);
+      setErrorMessage(error instanceof EngineError ? error.message : "Error reviewing game");
+    } finally {
+      if (!signal.aborted) setReviewProgress(null);
+    }
+  };
+
   const navigateMove = (direction: "forward" | "back") => {
     const newIndex =
       direction === "forward"
         ? Math.min(currentMoveIndex + 1, positions.length - 1)
         : Math.max(currentMoveIndex - 1, 0);
     if (newIndex !== currentMoveIndex) {
-      setCurrentMoveIndex(newIndex);
-      setCurrentPosition(positions[newIndex]);
+      goToPosition(newIndex);
     }
   };
 
+  const openTrainer = () => {
+    cancelAutoMove();
+    setIsTraining(true);
+  };
+
+  useKeyboardShortcuts({
+    ArrowLeft: () => navigateMove("back"),
+    ArrowRight: () => navigateMove("forward"),
+    Home: () => goToPosition(0),
+    End: () => goToPosition(positions.length - 1),
+    u: () => takeBackMoves(2),
+    r: () => redoMove(),
+    f: toggleBoardView,
+    "/": () => moveInputRef.current?.focus(),
+    h: requestHint,
+    w: () => announce(describePieces(currentPosition, "w")),
+    b: () => announce(describePieces(currentPosition, "b")),
+  }, playerColor !== null && !isSettingUp && !isTraining);
+
+  const bottomColor = settings.orientation === "player"
+    ? (playerColor === "b" ? "black" : "white")
+    : settings.orientation;
   const boardOrientation = flipBoard
-    ? (playerColor === "b" ? "white" : "black")
-    : (playerColor === "b" ? "black" : "white");
+    ? (bottomColor === "white" ? "black" : "white")
+    : bottomColor;
+
+  // What spectator tabs show: the board as it is shown here.
+  const gameStatus = getGameStatus();
+  const spectatorSnapshot = useMemo<SpectatorSnapshot | null>(() => (playerColor === null ? null : {
+    fen: currentPosition,
+    boardOrientation,
+    lastMoveSquares,
+    checkSquare: checkedKingSquare(currentPosition),
+    startFen: positions[0],
+    moveHistory,
+    currentMoveIndex,
+    clock,
+    evaluation,
+    status: gameStatus,
+  }), [playerColor, currentPosition, boardOrientation, lastMoveSquares, positions, moveHistory, currentMoveIndex, clock, evaluation, gameStatus]);
+  // The tab taking over restores the game from the saved session, so it is saved first.
+  const broadcast = useGameBroadcast(spectatorSnapshot, async () => {
+    endEngineSession();
+    await saveSession(stoppedSession(savedSession));
+  });
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-blue-900 to-blue-800 gap-8 flex items-center max-lg:flex-col justify-center p-4 scale-80 origin-top">
       {playerColor === null ? (
         <div className="min-h-screen bg-gradient-to-b from-blue-900 to-blue-800 gap-8  flex items-center max-lg:flex-col justify-center p-4 scale-80 origin-top">
           <div className="bg-blue-50 p-8 rounded-xl shadow-2xl max-w-md w-full text-center">
-            <h1 className="text-2xl font-bold text-blue-900 mb-6">Chess Companion</h1>
-            <p className="text-blue-800 mb-6">
-              Select the color you will play (the auto moves will be made for this side)
-            </p>
-            <div className="grid grid-cols-2 gap-4">
+            <div className="flex items-center justify-between mb-6">
+              <h1 className="text-2xl font-bold text-blue-900">Chess Companion</h1>
               <button
-                onClick={() => startNewGame("w")}
-                className="bg-white hover:bg-gray-50 text-blue-900 font-bold py-4 px-6 rounded-lg shadow flex items-center justify-center gap-2 transition-colors"
+                onClick={() => setShowSettings(true)}
+                aria-label="Settings"
+                className="p-2 rounded-lg text-blue-900 hover:bg-blue-100"
               >
-                <Circle className="w-6 h-6" />
-                I'm White (auto)
+                <SettingsIcon className="w-5 h-5" />
               </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 mb-4" role="radiogroup" aria-label="Game mode">
+              {PLAYER_MODES.map(mode => (
+                <button
+                  key={mode.id}
+                  role="radio"
+                  aria-checked={playerMode === mode.id}
+                  onClick={() => dispatch({ type: "set-mode", mode: mode.id })}
+                  className={`py-2 px-3 rounded-lg font-semibold border transition-colors ${playerMode === mode.id ? "bg-blue-700 text-white border-blue-700" : "bg-white text-blue-900 border-blue-200 hover:bg-blue-100"}`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-blue-800 mb-6">
+              {getPlayerMode(playerMode).description}
+              {playerMode === "companion" && " Select the color you will play (the auto moves will be made for this side)."}
+            </p>
+            {playerMode === "companion" && (
+              <label className="block text-left text-blue-900 font-semibold mb-6">
+                Engine strength
+                <StrengthSelect value={strengthId} onChange={setStrengthId} className="mt-1 border border-blue-200 font-normal" />
+              </label>
+            )}
+            {playerMode === "engine-vs-engine" && (
+              <div className="grid grid-cols-2 gap-4 mb-6">
+                <label className="block text-left text-blue-900 font-semibold">
+                  White engine
+                  <StrengthSelect value={strengthId} onChange={setStrengthId} className="mt-1 border border-blue-200 font-normal" />
+                </label>
+                <label className="block text-left text-blue-900 font-semibold">
+                  Black engine
+                  <StrengthSelect value={opponentStrengthId} onChange={setOpponentStrengthId} className="mt-1 border border-blue-200 font-normal" />
+                </label>
+              </div>
+            )}
+            <div className="text-left text-blue-900 font-semibold mb-6">
+              Time control
+              <div className="mt-1">
+                <TimeControlPicker
+                  value={timeControl}
+                  onChange={setTimeControl}
+                  engineUsesClock={engineUsesClock}
+                  setEngineUsesClock={setEngineUsesClock}
+                />
+              </div>
+            </div>
+            <div className="text-left text-blue-900 font-semibold mb-6">
+              Start position
+              <div className="mt-1 flex items-center gap-2 font-normal">
+                <select
+                  value={chess960 === null ? "standard" : "chess960"}
+                  onChange={(e) => setChess960(e.target.value === "chess960" ? "random" : null)}
+                  className="p-2 rounded-lg border border-blue-200"
+                >
+                  <option value="standard">Standard</option>
+                  <option value="chess960">Chess960</option>
+                </select>
+                {chess960 !== null && (
+                  <>
+                    <input
+                      type="number"
+                      min={0}
+                      max={CHESS960_POSITIONS - 1}
+                      value={chess960 === "random" ? "" : chess960}
+                      onChange={(e) => {
+                        const number = Number(e.target.value);
+                        setChess960(e.target.value === "" || !Number.isInteger(number) || number < 0 || number >= CHESS960_POSITIONS
+                          ? "random"
+                          : number);
+                      }}
+                      placeholder="Random"
+                      aria-label="Chess960 position number"
+                      className="w-24 p-2 rounded-lg border border-blue-200"
+                    />
+                    <button
+                      onClick={() => setChess960(randomChess960Number())}
+                      className="px-3 py-2 rounded-lg bg-white border border-blue-200 hover:bg-blue-100"
+                    >
+                      Shuffle
+                    </button>
+                  </>
+                )}
+              </div>
+              {chess960 !== null && (
+                <p className="mt-1 font-normal text-sm text-blue-800">
+                  {chess960 === "random"
+                    ? "A new random position every game."
+                    : <>Position {chess960}: <span className="font-mono">{chess960StartFen(chess960).split("/")[7].split(" ")[0]}</span></>}
+                </p>
+              )}
+            </div>
+            {getPlayerMode(playerMode).choosesColor ? (
+              <div className="grid grid-cols-2 gap-4">
+                <button
+                  onClick={() => beginGame("w")}
+                  className="bg-white hover:bg-gray-50 text-blue-900 font-bold py-4 px-6 rounded-lg shadow flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Circle className="w-6 h-6" />
+                  I'm White{playerMode === "companion" && " (auto)"}
+                </button>
+                <button
+                  onClick={() => beginGame("b")}
+                  className="bg-gray-800 hover:bg-gray-700 text-white font-bold py-4 px-6 rounded-lg shadow flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Circle className="w-6 h-6 fill-current" />
+                  I'm Black{playerMode === "companion" && " (auto)"}
+                </button>
+              </div>
+            ) : (
               <button
-                onClick={() => startNewGame("b")}
-                className="bg-gray-800 hover:bg-gray-700 text-white font-bold py-4 px-6 rounded-lg shadow flex items-center justify-center gap-2 transition-colors"
+                onClick={() => beginGame("w")}
+                className="w-full bg-blue-700 hover:bg-blue-600 text-white font-bold py-4 px-6 rounded-lg shadow flex items-center justify-center gap-2 transition-colors"
               >
-                <Circle className="w-6 h-6 fill-current" />
-                I'm Black (auto)
+                {playerMode === "engine-vs-engine" ? <Bot className="w-6 h-6" /> : <Users className="w-6 h-6" />}
+                {playerMode === "engine-vs-engine" ? "Watch the engines play" : "Start game"}
               </button>
-            </div>
+            )}
           </div>
         </div>
+      ) : isTraining ? (
+        <PuzzleTrainer
+          engine={reviewEngine}
+          games={library.games}
+          updateGame={library.save}
+          settings={settings}
+          setBlindfold={value => updateSettings({ blindfold: value })}
+          onExit={() => setIsTraining(false)}
+        />
       ) : (
         <>
 
           <ChessBoardPanel
             currentPosition={currentPosition}
             onPieceDrop={onDrop}
+            onMoveInput={makeManualMove}
+            moveInputDisabled={isGameOver || flagged !== null}
+            moveInputRef={moveInputRef}
             onSquareClick={onSquareClick}
+            onPromotionCheck={needsPromotionChoice}
+            onPromotionPieceSelect={onPromotionPieceSelect}
+            promotionToSquare={pendingPromotion?.to ?? null}
             boardOrientation={boardOrientation}
             selectedSquare={selectedSquare}
             possibleMoves={possibleMoves}
@@ -323,29 +959,123 @@ function App() {
             lastMove={lastMove}
             errorMessage={errorMessage}
             gameEndMessage={gameEndMessage}
-            undoLastManualMove={undoLastManualMove}
+            takeBack={takeBackMoves}
             navigateMove={navigateMove}
             positions={positions}
             currentMoveIndex={currentMoveIndex}
+            evaluation={evaluation}
+            clock={clock}
+            clockNow={clockNow}
+            lastMoveSquares={lastMoveSquares}
+            checkSquare={checkedKingSquare(currentPosition)}
+            bestMove={bestMove}
+            hint={boardHint?.move ?? null}
+            threats={threats}
+            drawing={drawings.drawing}
+            onDrawArrow={drawings.toggleArrow}
+            onDrawCircle={drawings.toggleCircle}
+            onClearDrawing={drawings.clear}
+            showBestMove={settings.showBestMove}
+            setShowBestMove={value => updateSettings({ showBestMove: value })}
+            showThreats={settings.showThreats}
+            setShowThreats={value => updateSettings({ showThreats: value })}
+            settings={settings}
+            setBlindfold={value => updateSettings({ blindfold: value })}
+            announcement={announcement}
+            announce={announce}
+            isSettingUp={isSettingUp}
+            onSetupDone={playFromSetup}
+            onSetupCancel={() => setIsSettingUp(false)}
           />
           <SidePanel
             playerColor={playerColor}
-            manualColor={manualColor}
-            showApiInput={false}
-            setShowApiInput={() => { }}
-            setApiKey={() => { }}
-            gameStatus={getGameStatus()}
+            playerMode={playerMode}
+            coach={coach}
+            coachContext={coachContext}
+            coachMoveLabel={parentFen && lastMove ? formatMoveSequence(parentFen, [lastMove]) : null}
+            hasApiKey={apiKey !== ''}
+            showApiInput={showApiInput}
+            setShowApiInput={setShowApiInput}
+            setApiKey={setApiKey}
+            gameStatus={gameStatus}
             moveHistory={moveHistory}
+            moveTree={moveTree}
+            annotations={reviewAnnotations}
+            selectNode={selectNode}
+            promoteVariation={promoteLine}
+            deleteVariation={deleteLine}
             positions={positions}
             currentMoveIndex={currentMoveIndex}
             navigateMove={navigateMove}
             startNewGame={startNewGame}
             changeColor={changeColor}
             toggleBoardView={toggleBoardView}
-            undoLastManualMove={undoLastManualMove}
+            takeBack={takeBackMoves}
+            redo={redoMove}
+            canTakeBack={moveTree.liveId !== moveTree.rootId}
+            canRedo={canRedo}
+            playFromHere={playFromHere}
+            isLive={isLive}
+            autoPaused={autoPaused}
+            exportPgn={exportGame}
+            importPgn={importGame}
+            openPositionSetup={openPositionSetup}
+            engineName={engine.name}
+            strengthId={strengthId}
+            setStrengthId={setStrengthId}
+            opponentStrengthId={opponentStrengthId}
+            setOpponentStrengthId={setOpponentStrengthId}
+            hint={boardHint?.san ?? null}
+            isHintPending={isHintPending}
+            canHint={!isGameOver && isManualSide(game.turn())}
+            requestHint={requestHint}
+            resign={canDecide ? resign : null}
+            offerDraw={canDecide ? offerDraw : null}
+            isDrawOfferPending={isDrawOfferPending}
+            drawOfferDeclined={drawDeclinedAt === moveTree.liveId}
+            drawClaim={drawClaim}
+            claimDraw={claimDraw}
+            pauseEngines={isEngineVsEngine && !autoPaused && isLive ? pauseEngines : null}
+            analysis={analysis}
+            analysisEnabled={analysisEnabled}
+            setAnalysisEnabled={setAnalysisEnabled}
+            multiPv={multiPv}
+            setMultiPv={setMultiPv}
+            goToPosition={goToPosition}
+            review={isReviewCurrent ? review : null}
+            reviewProgress={reviewProgress}
+            startReview={startReview}
+            openingInfo={openingInfo}
+            bookContinuations={bookMoves(currentPosition)}
+            engineUsesBook={engineUsesBook}
+            setEngineUsesBook={setEngineUsesBook}
+            bookExitNodeId={bookExitNodeId}
+            savedGames={library.games}
+            libraryError={library.error}
+            openSavedGame={openSavedGame}
+            deleteSavedGame={deleteSavedGame}
+            exportSavedGames={exportSavedGames}
+            openTrainer={openTrainer}
+            spectators={broadcast.supported ? broadcast.spectators : null}
+            openSpectatorView={() => window.open(spectatorUrl(), "_blank")}
+            handOverControl={tabId => {
+              broadcast.handOver(tabId).catch(error => {
+                console.error("Error handing over control:", error);
+                setErrorMessage("Could not hand over control");
+              });
+            }}
+            openSettings={() => setShowSettings(true)}
           />
         </>
       )}
+      {showSettings && (
+        <SettingsPanel
+          settings={settings}
+          onChange={changeSettings}
+          onReset={() => changeSettings(DEFAULT_SETTINGS)}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
     </div>
   );
 }
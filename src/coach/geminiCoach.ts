@@ -0,0 +1,32 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { buildExplanationPrompt } from './prompt';
+import { CoachError, CoachProvider, MoveContext } from './types';
+
+const MODEL = 'gemini-pro';
+const TIMEOUT_MS = 30000;
+
+/**
+ * Google Gemini, called from the browser with the user's own API key.
+ */
+export class GeminiCoach implements CoachProvider {
+    readonly name = 'Gemini';
+    private client: GoogleGenerativeAI;
+
+    constructor(apiKey: string) {
+        this.client = new GoogleGenerativeAI(apiKey);
+    }
+
+    async explainMove(context: MoveContext): Promise<string> {
+        const model = this.client.getGenerativeModel({ model: MODEL }, { timeout: TIMEOUT_MS });
+        try {
+            const result = await model.generateContent(buildExplanationPrompt(context));
+            const text = result.response.text().trim();
+            if (!text) throw new CoachError(`${this.name} returned an empty explanation`);
+            return text;
+        } catch (error) {
+            if (error instanceof CoachError) throw error;
+            console.error('Gemini error:', error);
+            throw new CoachError(`${this.name} could not explain the move${error instanceof Error ? `: ${error.message}` : ''}`);
+        }
+    }
+}
@@ -0,0 +1,14 @@
+import { GeminiCoach } from './geminiCoach';
+import { MockCoach } from './mockCoach';
+import { CoachProvider } from './types';
+
+export * from './types';
+export { buildExplanationPrompt } from './prompt';
+export { GeminiCoach, MockCoach };
+
+/**
+ * Gemini when the user has entered an API key, the offline coach otherwise.
+ */
+export function createCoach(apiKey: string | null): CoachProvider {
+    return apiKey ? new GeminiCoach(apiKey) : new MockCoach();
+}
@@ -0,0 +1,43 @@
+import { formatScore } from '../engine';
+import { loadChess, playSan } from '../game/chess960';
+import { formatMoveSequence } from '../game/notation';
+import { CoachError, CoachProvider, MoveContext } from './types';
+
+const PIECE_NAMES: Record<string, string> = { p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king' };
+
+/**
+ * Offline coach that describes a move from its features and the engine's numbers
+ * without calling any service. Deterministic, so also usable in tests.
+ */
+export class MockCoach implements CoachProvider {
+    readonly name = 'Offline coach';
+
+    async explainMove({ fen, san, evaluation, continuation, verdict, opening }: MoveContext): Promise<string> {
+        const mover = loadChess(fen).turn() === 'w' ? 'White' : 'Black';
+        let move;
+        try {
+            move = playSan(fen, san);
+        } catch {
+            throw new CoachError(`${san} is not legal in this position`);
+        }
+
+        const piece = PIECE_NAMES[move.piece];
+        const sentences: string[] = [];
+        if (move.castling) {
+            sentences.push(`${mover} castles ${move.castling.side === 'k' ? 'kingside' : 'queenside'}, tucking the king away and connecting the rooks.`);
+        } else if (move.captured) {
+            sentences.push(`${mover}'s ${piece} takes the ${PIECE_NAMES[move.captured]} on ${move.to}.`);
+        } else {
+            sentences.push(`${mover} moves the ${piece} from ${move.from} to ${move.to}.`);
+        }
+        if (move.promotion) sentences.push(`The pawn promotes to a ${PIECE_NAMES[move.promotion]}.`);
+        const board = loadChess(move.after);
+        if (board.isCheckmate()) sentences.push('It is checkmate.');
+        else if (board.inCheck()) sentences.push('It gives check, so the reply is forced to deal with it.');
+        if (opening) sentences.push(`The game is in the ${opening}.`);
+        if (verdict) sentences.push(`The review rates it as ${verdict.toLowerCase()}.`);
+        if (evaluation) sentences.push(`The engine evaluates the position at ${formatScore(evaluation)} from White's side.`);
+        if (continuation.length > 0) sentences.push(`The expected continuation is ${formatMoveSequence(move.after, continuation)}.`);
+        return sentences.join(' ');
+    }
+}
@@ -0,0 +1,30 @@
+import { formatScore } from '../engine';
+import { loadChess, playSan } from '../game/chess960';
+import { formatMoveSequence } from '../game/notation';
+import { MoveContext } from './types';
+
+/**
+ * Builds the request sent to a language model. The engine's numbers are included so
+ * the explanation follows the engine instead of the model's own, less reliable, reading.
+ */
+export function buildExplanationPrompt({ fen, san, evaluation, continuation, verdict, opening }: MoveContext): string {
+    const mover = loadChess(fen).turn() === 'w' ? 'White' : 'Black';
+    const played = formatMoveSequence(fen, [san]);
+    const after = playSan(fen, san).after;
+
+    const facts = [
+        `Position before the move (FEN): ${fen}`,
+        `Move played by ${mover}: ${played}`,
+        opening ? `Opening: ${opening}` : null,
+        evaluation ? `Engine evaluation after the move (from White's side): ${formatScore(evaluation)}` : null,
+        continuation.length > 0 ? `Engine's expected continuation: ${formatMoveSequence(after, continuation)}` : null,
+        verdict ? `Game review verdict for this move: ${verdict}` : null,
+    ].filter(Boolean);
+
+    return [
+        'You are a friendly chess coach explaining a single move to a club player.',
+        ...facts,
+        'In at most four sentences of plain English, explain the idea behind the move, what it threatens or',
+        'defends, and what the evaluation means for each side. Do not invent moves beyond those given.',
+    ].join('\n');
+}
@@ -0,0 +1,37 @@
+import { EngineScore } from '../engine';
+
+/**
+ * Everything the coach is told about the move to explain.
+ */
+export interface MoveContext {
+    /** Position before the move. */
+    fen: string;
+    san: string;
+    /** Engine evaluation of the position after the move, White-relative; null when unknown. */
+    evaluation: EngineScore | null;
+    /** Engine's expected continuation after the move, in SAN. */
+    continuation: string[];
+    /** Review verdict, e.g. "Blunder", when the game has been reviewed. */
+    verdict?: string | null;
+    /** Opening name, while still in a known opening. */
+    opening?: string | null;
+}
+
+/**
+ * Common interface implemented by every coach backend.
+ */
+export interface CoachProvider {
+    readonly name: string;
+    /** Resolves with a short plain-English explanation of the move. */
+    explainMove(context: MoveContext): Promise<string>;
+}
+
+/**
+ * Coach failure; the message is meant to be shown to the user as-is.
+ */
+export class CoachError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CoachError';
+    }
+}
@@ -0,0 +1,82 @@
+import { Brain } from 'lucide-react';
+import React from 'react';
+import { formatScore, toWhiteScore } from '../engine';
+import { formatMoveSequence, pvToSan } from '../game/notation';
+import { EngineAnalysis } from '../hooks/useEngineAnalysis';
+
+interface AnalysisPanelProps {
+    engineName: string;
+    analysis: EngineAnalysis;
+    enabled: boolean;
+    setEnabled: (value: boolean) => void;
+    multiPv: number;
+    setMultiPv: (value: number) => void;
+}
+
+const MULTI_PV_OPTIONS = [1, 2, 3, 4, 5];
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
+    engineName,
+    analysis,
+    enabled,
+    setEnabled,
+    multiPv,
+    setMultiPv
+}) => {
+    const { fen, lines } = analysis;
+    const depth = lines[0]?.depth;
+    const status = !enabled
+        ? 'Analysis off'
+        : analysis.error
+            ? analysis.error
+            : analysis.isRunning
+                ? `Analysing${depth ? ` · depth ${depth}` : '…'}`
+                : lines.length > 0
+                    ? `Done · depth ${depth}`
+                    : `${engineName} is ready`;
+
+    return (
+        <div>
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-bold text-white">Chess Engine</h2>
+                <div className="flex items-center gap-2 text-sm text-white">
+                    <select
+                        value={multiPv}
+                        onChange={(e) => setMultiPv(Number(e.target.value))}
+                        disabled={!enabled}
+                        className="bg-blue-800 rounded px-1 py-0.5"
+                        aria-label="Number of lines"
+                    >
+                        {MULTI_PV_OPTIONS.map((n) => (
+                            <option key={n} value={n}>{n} {n === 1 ? 'line' : 'lines'}</option>
+                        ))}
+                    </select>
+                    <label className="flex items-center gap-1">
+                        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+                        Analyse
+                    </label>
+                </div>
+            </div>
+            <div className={`mt-2 px-3 py-2 rounded-lg flex items-center gap-2 ${analysis.error ? 'bg-red-200 text-red-800' : 'bg-green-200 text-green-800'}`}>
+                <Brain className={`w-5 h-5 ${analysis.isRunning ? 'animate-pulse' : ''}`} />
+                <span className="text-sm font-semibold">{status}</span>
+            </div>
+            {enabled && fen && lines.length > 0 && (
+                <ul className="mt-2 bg-white rounded-lg p-2 text-blue-900 text-sm space-y-1">
+                    {lines.map((line) => (
+                        <li key={line.multiPv} className="flex gap-2">
+                            <span className="font-bold w-14 shrink-0 text-right">
+                                {formatScore(toWhiteScore(line.score, fen))}
+                            </span>
+                            <span className="truncate" title={`Depth ${line.depth}`}>
+                                {formatMoveSequence(fen, pvToSan(fen, line.pv))}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default AnalysisPanel;
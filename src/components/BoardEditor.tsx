@@ -0,0 +1,249 @@
+import { Square } from 'chess.js';
+import React, { ComponentProps, useState } from 'react';
+import { Chessboard, ChessboardDnDProvider, SparePiece } from 'react-chessboard';
+import {
+    availableCastlingRights,
+    availableEnPassantSquares,
+    BoardPiece,
+    buildSetupFen,
+    CastlingRight,
+    parseSetupFen,
+    PositionSetup,
+    validateSetupFen
+} from '../game/setup';
+import { BoardTheme } from './boardThemes';
+
+interface BoardEditorProps {
+    initialFen: string;
+    boardWidth: number;
+    boardOrientation: 'white' | 'black';
+    theme: BoardTheme;
+    pieces: ComponentProps<typeof Chessboard>['customPieces'];
+    showCoordinates: boolean;
+    onDone: (fen: string) => void;
+    onCancel: () => void;
+}
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const EMPTY_FEN = '8/8/8/8/8/8/8/8 w - - 0 1';
+const SPARE_TYPES = ['K', 'Q', 'R', 'B', 'N', 'P'];
+const CASTLING_LABELS: Record<CastlingRight, string> = {
+    K: 'White O-O',
+    Q: 'White O-O-O',
+    k: 'Black O-O',
+    q: 'Black O-O-O',
+};
+
+const BoardEditor: React.FC<BoardEditorProps> = ({
+    initialFen,
+    boardWidth,
+    boardOrientation,
+    theme,
+    pieces,
+    showCoordinates,
+    onDone,
+    onCancel
+}) => {
+    const [setup, setSetup] = useState<PositionSetup>(() => parseSetupFen(initialFen));
+    const [fenInput, setFenInput] = useState('');
+    const [fenError, setFenError] = useState<string | null>(null);
+
+    const castlingOptions = availableCastlingRights(setup.placement);
+    const enPassantOptions = availableEnPassantSquares(setup.placement, setup.turn);
+
+    // Rights and en passant squares that no longer fit the board are dropped as pieces move.
+    const fen = buildSetupFen({
+        ...setup,
+        castling: setup.castling.filter((right) => castlingOptions.includes(right)),
+        enPassant: setup.enPassant && enPassantOptions.includes(setup.enPassant) ? setup.enPassant : null,
+    });
+    const validationError = validateSetupFen(fen);
+
+    const updatePlacement = (update: (placement: PositionSetup['placement']) => void) => {
+        setSetup((prev) => {
+            const placement = { ...prev.placement };
+            update(placement);
+            return { ...prev, placement };
+        });
+    };
+
+    const onPieceDrop = (source: Square, target: Square, piece: BoardPiece) => {
+        updatePlacement((placement) => {
+            delete placement[source];
+            placement[target] = piece;
+        });
+        return true;
+    };
+
+    const onSparePieceDrop = (piece: BoardPiece, target: Square) => {
+        updatePlacement((placement) => {
+            placement[target] = piece;
+        });
+        return true;
+    };
+
+    const removePiece = (square: Square) => {
+        updatePlacement((placement) => {
+            delete placement[square];
+        });
+    };
+
+    const toggleCastling = (right: CastlingRight) => {
+        setSetup((prev) => ({
+            ...prev,
+            castling: prev.castling.includes(right)
+                ? prev.castling.filter((r) => r !== right)
+                : [...prev.castling, right],
+        }));
+    };
+
+    const loadFen = (value: string) => {
+        const error = validateSetupFen(value.trim());
+        if (error) {
+            setFenError(error);
+            return;
+        }
+        setSetup(parseSetupFen(value.trim()));
+        setFenError(null);
+        setFenInput('');
+    };
+
+    const sparePieceRow = (color: 'w' | 'b') => (
+        <div className="flex justify-center gap-1 bg-blue-950/40 rounded-lg p-1">
+            {SPARE_TYPES.map((type) => (
+                <SparePiece
+                    key={type}
+                    piece={`${color}${type}` as BoardPiece}
+                    width={boardWidth / 10}
+                    dndId="setup"
+                />
+            ))}
+        </div>
+    );
+
+    return (
+        <div className="flex flex-col gap-3">
+            <ChessboardDnDProvider>
+                {sparePieceRow(boardOrientation === 'white' ? 'b' : 'w')}
+                <Chessboard
+                    id="setup"
+                    position={setup.placement}
+                    boardWidth={boardWidth}
+                    boardOrientation={boardOrientation}
+                    onPieceDrop={onPieceDrop}
+                    onSparePieceDrop={onSparePieceDrop}
+                    onSquareRightClick={removePiece}
+                    onPieceDropOffBoard={removePiece}
+                    dropOffBoardAction="trash"
+                    areArrowsAllowed={false}
+                    customDarkSquareStyle={{ backgroundColor: theme.dark }}
+                    customLightSquareStyle={{ backgroundColor: theme.light }}
+                    customPieces={pieces}
+                    showBoardNotation={showCoordinates}
+                />
+                {sparePieceRow(boardOrientation === 'white' ? 'w' : 'b')}
+            </ChessboardDnDProvider>
+
+            <div className="bg-white rounded-lg p-4 text-blue-900 text-sm flex flex-col gap-3">
+                <p className="text-gray-600">
+                    Drag pieces onto the board, drag them off or right-click a square to remove them.
+                </p>
+                <div className="flex flex-wrap gap-4 items-center">
+                    <label className="font-bold">Side to move</label>
+                    {(['w', 'b'] as const).map((turn) => (
+                        <label key={turn} className="flex items-center gap-1">
+                            <input
+                                type="radio"
+                                checked={setup.turn === turn}
+                                onChange={() => setSetup((prev) => ({ ...prev, turn, enPassant: null }))}
+                            />
+                            {turn === 'w' ? 'White' : 'Black'}
+                        </label>
+                    ))}
+                </div>
+                <div className="flex flex-wrap gap-4 items-center">
+                    <span className="font-bold">Castling</span>
+                    {(Object.keys(CASTLING_LABELS) as CastlingRight[]).map((right) => (
+                        <label key={right} className={`flex items-center gap-1 ${castlingOptions.includes(right) ? '' : 'text-gray-400'}`}>
+                            <input
+                                type="checkbox"
+                                disabled={!castlingOptions.includes(right)}
+                                checked={setup.castling.includes(right) && castlingOptions.includes(right)}
+                                onChange={() => toggleCastling(right)}
+                            />
+                            {CASTLING_LABELS[right]}
+                        </label>
+                    ))}
+                </div>
+                <div className="flex flex-wrap gap-4 items-center">
+                    <label className="font-bold" htmlFor="setup-en-passant">En passant</label>
+                    <select
+                        id="setup-en-passant"
+                        value={setup.enPassant && enPassantOptions.includes(setup.enPassant) ? setup.enPassant : ''}
+                        onChange={(e) => setSetup((prev) => ({ ...prev, enPassant: (e.target.value || null) as Square | null }))}
+                        className="border rounded px-2 py-1"
+                    >
+                        <option value="">None</option>
+                        {enPassantOptions.map((square) => (
+                            <option key={square} value={square}>{square}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setSetup(parseSetupFen(START_FEN))}
+                        className="bg-gray-200 hover:bg-gray-300 rounded-lg px-3 py-1 font-semibold"
+                    >
+                        Starting position
+                    </button>
+                    <button
+                        onClick={() => setSetup(parseSetupFen(EMPTY_FEN))}
+                        className="bg-gray-200 hover:bg-gray-300 rounded-lg px-3 py-1 font-semibold"
+                    >
+                        Clear board
+                    </button>
+                </div>
+                <div className="flex flex-col gap-1">
+                    <label className="font-bold" htmlFor="setup-fen">Paste FEN</label>
+                    <div className="flex gap-2">
+                        <input
+                            id="setup-fen"
+                            value={fenInput}
+                            onChange={(e) => setFenInput(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && loadFen(fenInput)}
+                            placeholder={START_FEN}
+                            className="flex-1 border rounded px-2 py-1 font-mono text-xs"
+                        />
+                        <button
+                            onClick={() => loadFen(fenInput)}
+                            disabled={!fenInput.trim()}
+                            className="bg-blue-700 hover:bg-blue-600 disabled:bg-gray-400 text-white rounded-lg px-3 py-1 font-semibold"
+                        >
+                            Load
+                        </button>
+                    </div>
+                    {fenError && <p className="text-red-600">Invalid FEN: {fenError}</p>}
+                </div>
+                <p className="font-mono text-xs break-all text-gray-600">{fen}</p>
+                {validationError && <p className="text-red-600 font-semibold">Cannot play this position: {validationError}</p>}
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => onDone(fen)}
+                        disabled={validationError !== null}
+                        className="flex-1 bg-green-700 hover:bg-green-600 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+                    >
+                        Play from this position
+                    </button>
+                    <button
+                        onClick={onCancel}
+                        className="flex-1 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BoardEditor;
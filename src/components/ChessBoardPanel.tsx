@@ -1,12 +1,34 @@
-import React, { useEffect, useState } from 'react';
+import React, { CSSProperties, useEffect, useMemo, useRef, useState } from 'react';
 import { Chessboard } from 'react-chessboard';
-import { Square } from 'chess.js';
-import { ChevronLeft, ChevronRight, CopyCheck } from 'lucide-react';
+import { PieceSymbol, Square } from 'chess.js';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { EngineScore } from '../engine';
+import { Diagram, DiagramStyle } from '../export/diagram';
+import { ClockState } from '../game/clock';
+import { BoardDrawing, DRAWING_COLORS, drawingColor, DrawnArrow, DrawnCircle } from '../game/drawings';
+import { checkedKingSquare, moveBetween, SquarePair } from '../game/highlights';
+import { describePieces } from '../game/speech';
+import { Settings } from '../hooks/useSettings';
+import BoardEditor from './BoardEditor';
+import { customPieces, getBoardTheme, HIDDEN_PIECES } from './boardThemes';
+import ChessClock from './ChessClock';
+import DiagramExport from './DiagramExport';
+import EvaluationBar from './EvaluationBar';
+import MoveInput from './MoveInput';
+import SquareGrid from './SquareGrid';
 
 interface ChessBoardPanelProps {
     currentPosition: string;
     onPieceDrop: (source: Square, target: Square) => boolean;
+    /** Plays a move typed in the move box. */
+    onMoveInput: (from: Square, to: Square, promotion?: PieceSymbol) => boolean;
+    moveInputDisabled: boolean;
+    moveInputRef: React.Ref<HTMLInputElement>;
     onSquareClick: (square: Square) => void;
+    onPromotionCheck: (source: Square, target: Square) => boolean;
+    onPromotionPieceSelect: (piece?: string, from?: Square, to?: Square) => boolean;
+    /** Target square of a clicked promotion waiting for the piece picker. */
+    promotionToSquare: Square | null;
     boardOrientation: 'white' | 'black';
     selectedSquare: Square | null;
     possibleMoves: Square[];
@@ -14,31 +36,109 @@ interface ChessBoardPanelProps {
     lastMove: string | null;
     errorMessage: string | null;
     gameEndMessage: string | null;
-    undoLastManualMove: () => void;
+    takeBack: (plies: number) => void;
     navigateMove: (direction: 'forward' | 'back') => void;
     positions: string[];
     currentMoveIndex: number;
+    /** White-relative evaluation for the bar beside the board; hidden when undefined. */
+    evaluation?: EngineScore | null;
+    /** Clocks of a timed game, shown above and below the board. */
+    clock: ClockState | null;
+    clockNow: number;
+    /** Squares of the move that led to the position. */
+    lastMoveSquares: SquarePair | null;
+    /** King in check, if any. */
+    checkSquare: Square | null;
+    /** Engine's best move in the position, drawn as an arrow. */
+    bestMove: SquarePair | null;
+    /** Move suggested on request, drawn whatever the arrow settings. */
+    hint: SquarePair | null;
+    /** Winning captures the opponent would have if it were its turn. */
+    threats: SquarePair[];
+    /** Arrows and circles the user drew on this position with the right mouse button. */
+    drawing: BoardDrawing;
+    onDrawArrow: (arrow: DrawnArrow) => void;
+    onDrawCircle: (circle: DrawnCircle) => void;
+    onClearDrawing: () => void;
+    showBestMove: boolean;
+    setShowBestMove: (value: boolean) => void;
+    showThreats: boolean;
+    setShowThreats: (value: boolean) => void;
+    /** Board look and which highlights to show. */
+    settings: Settings;
+    setBlindfold: (value: boolean) => void;
+    /** Latest message for screen readers, such as the move just played. */
+    announcement: string;
+    announce: (text: string) => void;
+    isSettingUp: boolean;
+    onSetupDone: (fen: string) => void;
+    onSetupCancel: () => void;
 }
 
+/** Arrow as taken by the board's `customArrows`: from, to and colour. */
+type Arrow = [Square, Square, string?];
+
+const LAST_MOVE_COLOR = 'rgba(155, 199, 0, 0.41)';
+const LAST_MOVE_STYLE: CSSProperties = { backgroundColor: LAST_MOVE_COLOR };
+const CHECK_STYLE: CSSProperties = {
+    background: 'radial-gradient(circle, rgba(255, 0, 0, 0.8) 0%, rgba(231, 0, 0, 0.5) 40%, transparent 75%)',
+};
+const BEST_MOVE_ARROW_COLOR = 'rgba(37, 99, 235, 0.75)';
+const HINT_ARROW_COLOR = 'rgba(234, 179, 8, 0.85)';
+const THREAT_ARROW_COLOR = 'rgba(220, 38, 38, 0.6)';
+
 const ChessBoardPanel: React.FC<ChessBoardPanelProps> = ({
     currentPosition,
     onPieceDrop,
+    onMoveInput,
+    moveInputDisabled,
+    moveInputRef,
     onSquareClick,
+    onPromotionCheck,
+    onPromotionPieceSelect,
+    promotionToSquare,
     boardOrientation,
     selectedSquare,
     possibleMoves,
     errorMessage,
     gameEndMessage,
-    undoLastManualMove,
+    takeBack,
     navigateMove,
     positions,
-    currentMoveIndex
+    currentMoveIndex,
+    evaluation,
+    clock,
+    clockNow,
+    lastMoveSquares,
+    checkSquare,
+    bestMove,
+    hint,
+    threats,
+    drawing,
+    onDrawArrow,
+    onDrawCircle,
+    onClearDrawing,
+    showBestMove,
+    setShowBestMove,
+    showThreats,
+    setShowThreats,
+    settings,
+    setBlindfold,
+    announcement,
+    announce,
+    isSettingUp,
+    onSetupDone,
+    onSetupCancel
 }) => {
-    const [boardWidth, setBoardWidth] = useState(Math.min(Math.max(window.innerWidth * 0.8, 400), 800));
+    const { maxBoardWidth } = settings;
+    const [boardWidth, setBoardWidth] = useState(Math.min(Math.max(window.innerWidth * 0.8, 400), maxBoardWidth));
+    // The board only reports squares under the mouse, so right-button drags are tracked from them.
+    const hoveredSquareRef = useRef<Square | null>(null);
+    const drawStartRef = useRef<Square | null>(null);
 
     useEffect(() => {
         const handleResize = () => {
-            const newWidth = Math.min(Math.max(window.innerWidth * 0.8, 350), 800);
+            const newWidth = Math.min(Math.max(window.innerWidth * 0.8, 350), maxBoardWidth);
             setBoardWidth(newWidth);
         };
 
@@ -49,14 +149,99 @@ const ChessBoardPanel: React.FC<ChessBoardPanelProps> = ({
         return () => {
             window.removeEventListener('resize', handleResize);
         };
-    }, []);
+    }, [maxBoardWidth]);
+
+    const theme = getBoardTheme(settings.boardTheme);
+    const pieces = useMemo(() => customPieces(settings.pieceSet), [settings.pieceSet]);
+
+    const arrows = useMemo<Arrow[]>(() => [
+        ...(showThreats ? threats.map(({ from, to }): Arrow => [from, to, THREAT_ARROW_COLOR]) : []),
+        ...(showBestMove && bestMove ? [[bestMove.from, bestMove.to, BEST_MOVE_ARROW_COLOR] as Arrow] : []),
+        ...(hint ? [[hint.from, hint.to, HINT_ARROW_COLOR] as Arrow] : []),
+        ...drawing.arrows.map(({ from, to, color }): Arrow => [from, to, DRAWING_COLORS[color]]),
+    ], [threats, showThreats, bestMove, showBestMove, hint, drawing]);
+
+    // Exported diagrams show the board as it is drawn here, pieces included in blindfold mode.
+    const diagramStyle: DiagramStyle = {
+        orientation: boardOrientation,
+        darkSquare: theme.dark,
+        lightSquare: theme.light,
+        letters: settings.pieceSet === 'letters',
+        coordinates: settings.showCoordinates,
+    };
+    const diagram: Diagram = {
+        fen: currentPosition,
+        highlights: settings.highlightLastMove && lastMoveSquares
+            ? [{ square: lastMoveSquares.from, color: LAST_MOVE_COLOR }, { square: lastMoveSquares.to, color: LAST_MOVE_COLOR }]
+            : [],
+        checkSquare: settings.highlightCheck ? checkSquare : null,
+        arrows: arrows.map(([from, to, color]) => ({ from, to, color: color ?? BEST_MOVE_ARROW_COLOR })),
+        circles: drawing.circles.map(({ square, color }) => ({ square, color: DRAWING_COLORS[color] })),
+    };
+    const lineDiagrams = () => positions.map((fen, index): Diagram => {
+        const move = index > 0 && settings.highlightLastMove ? moveBetween(positions[index - 1], fen) : null;
+        return {
+            fen,
+            highlights: move ? [{ square: move.from, color: LAST_MOVE_COLOR }, { square: move.to, color: LAST_MOVE_COLOR }] : [],
+            checkSquare: settings.highlightCheck ? checkedKingSquare(fen) : null,
+            arrows: [],
+            circles: [],
+        };
+    });
+
+    const squareStyles: Record<string, CSSProperties> = {};
+    const addStyle = (square: Square, style: CSSProperties) => {
+        squareStyles[square] = { ...squareStyles[square], ...style };
+    };
+    if (settings.highlightLastMove && lastMoveSquares) {
+        addStyle(lastMoveSquares.from, LAST_MOVE_STYLE);
+        addStyle(lastMoveSquares.to, LAST_MOVE_STYLE);
+    }
+    if (settings.highlightCheck && checkSquare) addStyle(checkSquare, CHECK_STYLE);
+    if (selectedSquare) addStyle(selectedSquare, { backgroundColor: 'rgba(255, 255, 0, 0.4)' });
+    if (settings.showLegalMoves) possibleMoves.forEach((square) => addStyle(square, {
+        background: 'radial-gradient(circle, rgba(0,0,0,.1) 25%, transparent 25%)',
+        borderRadius: '50%',
+    }));
+    drawing.circles.forEach(({ square, color }) => addStyle(square, { boxShadow: `inset 0 0 0 4px ${DRAWING_COLORS[color]}` }));
+
+    const onMouseDown = (event: React.MouseEvent) => {
+        if (event.button === 2) drawStartRef.current = hoveredSquareRef.current;
+    };
+
+    const onMouseUp = (event: React.MouseEvent) => {
+        const from = drawStartRef.current;
+        const to = hoveredSquareRef.current;
+        drawStartRef.current = null;
+        if (event.button !== 2 || !from || !to) return;
+        const color = drawingColor(event);
+        if (from === to) onDrawCircle({ square: to, color });
+        else onDrawArrow({ from, to, color });
+    };
+
+    if (isSettingUp) {
+        return (
+            <div className="lg:col-span-3">
+                <BoardEditor
+                    initialFen={currentPosition}
+                    boardWidth={boardWidth}
+                    boardOrientation={boardOrientation}
+                    theme={theme}
+                    pieces={pieces}
+                    showCoordinates={settings.showCoordinates}
+                    onDone={onSetupDone}
+                    onCancel={onSetupCancel}
+                />
+            </div>
+        );
+    }
 
     return (
         <div className="lg:col-span-3">
             <div className="relative">
                 <div className='hidden max-md:flex justify-end mb-4'>
                     <button
-                        onClick={undoLastManualMove}
+                        onClick={() => takeBack(2)}
                         className="text-sm bg-pink-700 hover:bg-pink-600 text-white font-bold py-2 px-3 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
                     >
                         <span>Undo</span>
@@ -81,11 +266,39 @@ const ChessBoardPanel: React.FC<ChessBoardPanelProps> = ({
                         <ChevronRight className="w-6 h-6" />
                     </button>
                 </div>
-                <div className="w-full aspect-square max-w-[800px] mx-auto">
+                {clock && (
+                    <div className="flex justify-end mb-2">
+                        <ChessClock clock={clock} color={boardOrientation === 'white' ? 'b' : 'w'} now={clockNow} />
+                    </div>
+                )}
+                <div
+                    className="w-full mx-auto flex gap-2"
+                    style={{ maxWidth: maxBoardWidth }}
+                    onMouseDown={onMouseDown}
+                    onMouseUp={onMouseUp}
+                    onMouseLeave={() => {
+                        hoveredSquareRef.current = null;
+                    }}
+                    onContextMenu={(e) => e.preventDefault()}
+                >
+                    {evaluation !== undefined && (
+                        <EvaluationBar score={evaluation} height={boardWidth} boardOrientation={boardOrientation} />
+                    )}
+                    <SquareGrid
+                        fen={currentPosition}
+                        boardOrientation={boardOrientation}
+                        selectedSquare={selectedSquare}
+                        possibleMoves={possibleMoves}
+                        onSquareClick={onSquareClick}
+                    />
                     <Chessboard
                         position={currentPosition}
                         onPieceDrop={onPieceDrop}
                         onSquareClick={onSquareClick}
+                        onPromotionCheck={onPromotionCheck}
+                        onPromotionPieceSelect={onPromotionPieceSelect}
+                        showPromotionDialog={promotionToSquare !== null}
+                        promotionToSquare={promotionToSquare}
                         boardWidth={boardWidth}
                         boardOrientation={boardOrientation}
                         customBoardStyle={{
@@ -93,25 +306,60 @@ const ChessBoardPanel: React.FC<ChessBoardPanelProps> = ({
                             boxShadow:
                                 "0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)",
                         }}
-                        customDarkSquareStyle={{ backgroundColor: "#945E3D" }}
-                        customLightSquareStyle={{ backgroundColor: "#DEB887" }}
-                        customSquareStyles={{
-                            ...(selectedSquare && {
-                                [selectedSquare]: { backgroundColor: 'rgba(255, 255, 0, 0.4)' },
-                            }),
-                            ...Object.fromEntries(
-                                possibleMoves.map((square) => [
-                                    square,
-                                    {
-                                        background:
-                                            'radial-gradient(circle, rgba(0,0,0,.1) 25%, transparent 25%)',
-                                        borderRadius: '50%',
-                                    },
-                                ])
-                            ),
+                        customDarkSquareStyle={{ backgroundColor: theme.dark }}
+                        customLightSquareStyle={{ backgroundColor: theme.light }}
+                        customPieces={settings.blindfold ? HIDDEN_PIECES : pieces}
+                        arePiecesDraggable={!settings.blindfold}
+                        showBoardNotation={settings.showCoordinates}
+                        animationDuration={settings.animationMs}
+                        customSquareStyles={squareStyles}
+                        customArrows={arrows}
+                        areArrowsAllowed={false}
+                        onMouseOverSquare={(square) => {
+                            hoveredSquareRef.current = square;
                         }}
                     />
                 </div>
+                {clock && (
+                    <div className="flex justify-end mt-2">
+                        <ChessClock clock={clock} color={boardOrientation === 'white' ? 'w' : 'b'} now={clockNow} />
+                    </div>
+                )}
+                <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-white">
+                    <label className="flex items-center gap-1">
+                        <input type="checkbox" checked={showBestMove} onChange={(e) => setShowBestMove(e.target.checked)} />
+                        Best move arrow
+                    </label>
+                    <label className="flex items-center gap-1">
+                        <input type="checkbox" checked={showThreats} onChange={(e) => setShowThreats(e.target.checked)} />
+                        Threats
+                    </label>
+                    <label className="flex items-center gap-1">
+                        <input type="checkbox" checked={settings.blindfold} onChange={(e) => setBlindfold(e.target.checked)} />
+                        Blindfold
+                    </label>
+                    <button onClick={() => announce(describePieces(currentPosition, 'w'))} className="underline text-blue-200 hover:text-white">
+                        Read White pieces
+                    </button>
+                    <button onClick={() => announce(describePieces(currentPosition, 'b'))} className="underline text-blue-200 hover:text-white">
+                        Read Black pieces
+                    </button>
+                    {(drawing.arrows.length > 0 || drawing.circles.length > 0) && (
+                        <button onClick={onClearDrawing} className="underline text-blue-200 hover:text-white">
+                            Clear drawings
+                        </button>
+                    )}
+                    <span className="hidden md:inline text-xs text-blue-200">
+                        Right-click or drag to draw; hold Shift, Alt or Ctrl for other colours
+                    </span>
+                </div>
+                <DiagramExport diagram={diagram} lineDiagrams={lineDiagrams} style={diagramStyle} />
+                <MoveInput ref={moveInputRef} fen={currentPosition} disabled={moveInputDisabled} onMove={onMoveInput} />
+                <p className="hidden md:block mt-1 text-xs text-blue-200">
+                    Keys: ← → browse moves · Home/End first/last · U undo · R redo · F flip board · / type a move · W/B read White/Black pieces
+                </p>
+                {/* Shown as well as spoken, for blindfold play. */}
+                <p aria-live="polite" aria-atomic="true" className="mt-1 min-h-5 text-sm text-blue-100">{announcement}</p>
 
                 {/* {isAnalyzing && (
                     <div className="absolute top-4 left-4 bg-blue-600 text-white px-4 py-2 rounded-lg shadow-lg flex items-center gap-2">
@@ -120,14 +368,6 @@ const ChessBoardPanel: React.FC<ChessBoardPanelProps> = ({
                     </div>
                 )} */}
 
-                {/* {lastMove && (
-                    <div className="absolute top-4 right-4 bg-green-600 text-white px-4 py-2 rounded-lg shadow-lg flex items-center gap-2">
-                        <span>Auto move: </span>
-                        <span className="font-bold">{lastMove}</span>
-                        <CopyCheck className="w-5 h-5" />
-                    </div>
-                )} */}
-
                 {errorMessage && (
                     <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg animate-fade-in">
                         {errorMessage}
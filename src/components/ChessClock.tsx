@@ -0,0 +1,36 @@
+import { Color } from 'chess.js';
+import { Timer } from 'lucide-react';
+import React from 'react';
+import { ClockState, formatClock, timeLeft } from '../game/clock';
+
+interface ChessClockProps {
+    clock: ClockState;
+    color: Color;
+    /** Timestamp the running clock is shown at; updated by the caller while it ticks. */
+    now: number;
+}
+
+const LOW_TIME_MS = 20000;
+
+const ChessClock: React.FC<ChessClockProps> = ({ clock, color, now }) => {
+    const left = timeLeft(clock, color, now);
+    const isRunning = clock.running === color;
+    const isFlagged = clock.flagged === color;
+    const colors = isFlagged
+        ? 'bg-red-700 text-white'
+        : isRunning
+            ? (left < LOW_TIME_MS ? 'bg-red-200 text-red-900' : 'bg-white text-blue-900')
+            : 'bg-blue-950 text-blue-200';
+
+    return (
+        <div
+            className={`flex items-center gap-2 px-3 py-1 rounded-lg font-mono text-2xl font-bold shadow ${colors}`}
+            aria-label={`${color === 'w' ? 'White' : 'Black'} clock`}
+        >
+            <Timer className={`w-5 h-5 ${isRunning ? 'animate-pulse' : 'opacity-50'}`} />
+            {formatClock(left)}
+        </div>
+    );
+};
+
+export default ChessClock;
@@ -0,0 +1,106 @@
+import { KeyRound, MessageCircle } from 'lucide-react';
+import React, { useState } from 'react';
+import { CoachProvider, MoveContext } from '../coach';
+import { useMoveExplanation } from '../hooks/useMoveExplanation';
+
+interface CoachPanelProps {
+    coach: CoachProvider;
+    /** Move shown on the board, or null at the start of the game. */
+    context: MoveContext | null;
+    /** Label of the move, such as "12... Nf6". */
+    moveLabel: string | null;
+    hasApiKey: boolean;
+    showApiInput: boolean;
+    setShowApiInput: (value: boolean) => void;
+    setApiKey: (key: string) => void;
+}
+
+/**
+ * Plain-English explanation of the move on the board, from the configured coach.
+ */
+const CoachPanel: React.FC<CoachPanelProps> = ({
+    coach,
+    context,
+    moveLabel,
+    hasApiKey,
+    showApiInput,
+    setShowApiInput,
+    setApiKey
+}) => {
+    const { text, isLoading, error, explain } = useMoveExplanation(coach, context);
+    const [keyText, setKeyText] = useState('');
+
+    const saveKey = () => {
+        setApiKey(keyText.trim());
+        setKeyText('');
+        setShowApiInput(false);
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-bold text-white">Coach</h2>
+                <button
+                    onClick={() => setShowApiInput(!showApiInput)}
+                    className="flex items-center gap-1 text-sm text-blue-200 hover:text-white"
+                >
+                    <KeyRound className="w-4 h-4" />
+                    {hasApiKey ? 'Gemini key set' : 'Add Gemini key'}
+                </button>
+            </div>
+
+            {showApiInput && (
+                <div className="mt-2 bg-white rounded-lg p-3 text-blue-900 text-sm flex flex-col gap-2">
+                    <p>
+                        Explanations use Google Gemini with your own API key, stored in this browser only.
+                        Without a key an offline coach describes the move from the engine's analysis.
+                    </p>
+                    <input
+                        type="password"
+                        value={keyText}
+                        onChange={(e) => setKeyText(e.target.value)}
+                        placeholder="Gemini API key"
+                        className="border rounded p-1"
+                        autoComplete="off"
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={saveKey}
+                            disabled={!keyText.trim()}
+                            className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-1 rounded"
+                        >
+                            Save key
+                        </button>
+                        <button
+                            onClick={() => {
+                                setApiKey('');
+                                setShowApiInput(false);
+                            }}
+                            disabled={!hasApiKey}
+                            className="bg-gray-200 hover:bg-gray-300 disabled:text-gray-400 font-bold py-1 rounded"
+                        >
+                            Remove key
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="mt-2 bg-white rounded-lg p-3 text-blue-900 text-sm flex flex-col gap-2">
+                <button
+                    onClick={explain}
+                    disabled={!context || isLoading || text !== null}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
+                >
+                    <MessageCircle className="w-4 h-4" />
+                    {context ? `Explain ${moveLabel}` : 'No move to explain'}
+                </button>
+                {isLoading && <p className="text-gray-600">{coach.name} is thinking…</p>}
+                {error && <p className="text-red-700">{error}</p>}
+                {text && <p className="whitespace-pre-line">{text}</p>}
+                <p className="text-xs text-gray-500">Coach: {coach.name}</p>
+            </div>
+        </div>
+    );
+};
+
+export default CoachPanel;
@@ -0,0 +1,105 @@
+import { Film, Image as ImageIcon } from 'lucide-react';
+import React, { useState } from 'react';
+import { Diagram, DiagramStyle, downloadBlob, rasterizeSvg, renderDiagramPng, renderDiagramSvg } from '../export/diagram';
+import { encodeGif } from '../export/gif';
+import { formatPgnDate } from '../game/pgn';
+
+interface DiagramExportProps {
+    /** The position on the board with its highlights and arrows. */
+    diagram: Diagram;
+    /** Every position of the line shown, as frames of the GIF; built on demand. */
+    lineDiagrams: () => Diagram[];
+    style: DiagramStyle;
+}
+
+const IMAGE_SIZE = 640;
+const GIF_SIZE = 360;
+const DEFAULT_FRAME_DELAY_MS = 800;
+
+const fileName = (extension: string) => `chess-companion-${formatPgnDate(new Date()).replace(/\./g, '-')}.${extension}`;
+
+/**
+ * Saves the board as a PNG or SVG diagram, or the whole line as an animated GIF, all
+ * drawn in the browser.
+ */
+const DiagramExport: React.FC<DiagramExportProps> = ({ diagram, lineDiagrams, style }) => {
+    const [frameDelayMs, setFrameDelayMs] = useState(DEFAULT_FRAME_DELAY_MS);
+    // Share of the GIF frames drawn so far, while one is being made.
+    const [gifProgress, setGifProgress] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const run = async (task: () => Promise<void>) => {
+        setError(null);
+        try {
+            await task();
+        } catch (error) {
+            console.error('Error exporting the board:', error);
+            setError(error instanceof Error ? error.message : 'Could not export the board');
+        }
+    };
+
+    const exportSvg = () => run(async () => {
+        downloadBlob(new Blob([renderDiagramSvg(diagram, style, IMAGE_SIZE)], { type: 'image/svg+xml' }), fileName('svg'));
+    });
+
+    const exportPng = () => run(async () => {
+        downloadBlob(await renderDiagramPng(diagram, style, IMAGE_SIZE), fileName('png'));
+    });
+
+    const exportGif = () => run(async () => {
+        const diagrams = lineDiagrams();
+        const frames: ImageData[] = [];
+        setGifProgress(0);
+        try {
+            for (const frame of diagrams) {
+                const canvas = await rasterizeSvg(renderDiagramSvg(frame, style, GIF_SIZE), GIF_SIZE);
+                frames.push((canvas.getContext('2d') as CanvasRenderingContext2D).getImageData(0, 0, GIF_SIZE, GIF_SIZE));
+                setGifProgress(frames.length / diagrams.length);
+            }
+            downloadBlob(new Blob([encodeGif(frames, frameDelayMs)], { type: 'image/gif' }), fileName('gif'));
+        } finally {
+            setGifProgress(null);
+        }
+    });
+
+    return (
+        <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-white">
+            <span className="flex items-center gap-1">
+                <ImageIcon className="w-4 h-4" />
+                Diagram:
+            </span>
+            <button onClick={exportPng} className="underline text-blue-200 hover:text-white">PNG</button>
+            <button onClick={exportSvg} className="underline text-blue-200 hover:text-white">SVG</button>
+            <span className="flex items-center gap-1">
+                <Film className="w-4 h-4" />
+                Game GIF:
+            </span>
+            <label className="flex items-center gap-1">
+                <input
+                    type="number"
+                    min={100}
+                    max={5000}
+                    step={100}
+                    value={frameDelayMs}
+                    onChange={(e) => {
+                        const delay = Number(e.target.value);
+                        if (Number.isFinite(delay) && delay >= 100) setFrameDelayMs(delay);
+                    }}
+                    className="w-20 rounded px-1 text-blue-900"
+                    aria-label="Frame delay in milliseconds"
+                />
+                ms per move
+            </label>
+            <button
+                onClick={exportGif}
+                disabled={gifProgress !== null}
+                className="underline text-blue-200 hover:text-white disabled:no-underline disabled:text-blue-300"
+            >
+                {gifProgress !== null ? `Drawing frames… ${Math.round(gifProgress * 100)}%` : 'GIF'}
+            </button>
+            {error && <span className="text-red-300" role="alert">{error}</span>}
+        </div>
+    );
+};
+
+export default DiagramExport;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { EngineScore, formatScore, whiteBarShare } from '../engine';
+
+interface EvaluationBarProps {
+    /** Evaluation from White's point of view, or null while nothing is known yet. */
+    score: EngineScore | null;
+    height: number;
+    boardOrientation: 'white' | 'black';
+}
+
+const EvaluationBar: React.FC<EvaluationBarProps> = ({ score, height, boardOrientation }) => {
+    const whiteShare = score ? whiteBarShare(score) : 50;
+    const whiteAtBottom = boardOrientation === 'white';
+    const label = score ? formatScore(score) : '…';
+    const whiteAhead = whiteShare >= 50;
+
+    return (
+        <div
+            className={`relative w-6 rounded overflow-hidden bg-gray-800 flex ${whiteAtBottom ? 'flex-col-reverse' : 'flex-col'}`}
+            style={{ height }}
+            title={`Evaluation ${label}`}
+        >
+            <div className="bg-gray-100 transition-all duration-500" style={{ height: `${whiteShare}%` }} />
+            <span
+                className={`absolute left-0 right-0 text-center text-[10px] font-bold ${whiteAhead === whiteAtBottom ? 'bottom-1' : 'top-1'} ${whiteAhead ? 'text-gray-800' : 'text-gray-100'}`}
+            >
+                {label}
+            </span>
+        </div>
+    );
+};
+
+export default EvaluationBar;
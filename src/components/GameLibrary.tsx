@@ -0,0 +1,123 @@
+import { Download, FolderOpen, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { SavedGame, userColorOf } from '../storage/gameDatabase';
+
+interface GameLibraryProps {
+    games: SavedGame[];
+    error: string | null;
+    openGame: (game: SavedGame) => void;
+    deleteGame: (id: string) => void;
+    exportGames: (games: SavedGame[]) => void;
+}
+
+type ResultFilter = 'all' | 'won' | 'lost' | 'drawn';
+type ColorFilter = 'all' | 'w' | 'b';
+
+/** Outcome from the point of view of the side the user picked. */
+const outcomeOf = (game: SavedGame): Exclude<ResultFilter, 'all'> | null => {
+    if (game.result === '1/2-1/2') return 'drawn';
+    const userColor = userColorOf(game);
+    // Nobody in particular won or lost a human vs human or engine vs engine game.
+    if (game.result === '*' || !userColor) return null;
+    return (game.result === '1-0') === (userColor === 'w') ? 'won' : 'lost';
+};
+
+const OUTCOME_STYLES: Record<Exclude<ResultFilter, 'all'>, string> = {
+    won: 'bg-green-100 text-green-800',
+    lost: 'bg-red-100 text-red-800',
+    drawn: 'bg-gray-100 text-gray-700',
+};
+
+/**
+ * Finished games stored in the browser, with filters, reopening and PGN export.
+ */
+const GameLibrary: React.FC<GameLibraryProps> = ({ games, error, openGame, deleteGame, exportGames }) => {
+    const [resultFilter, setResultFilter] = useState<ResultFilter>('all');
+    const [colorFilter, setColorFilter] = useState<ColorFilter>('all');
+    const [openingFilter, setOpeningFilter] = useState('');
+
+    const query = openingFilter.trim().toLowerCase();
+    const shown = games.filter((game) =>
+        (resultFilter === 'all' || outcomeOf(game) === resultFilter) &&
+        (colorFilter === 'all' || userColorOf(game) === colorFilter) &&
+        (!query || game.opening.toLowerCase().includes(query)));
+
+    return (
+        <div className="bg-white rounded-lg p-3 text-blue-900 text-sm flex flex-col gap-2">
+            {error && <p className="text-red-700">{error}</p>}
+            <div className="grid grid-cols-2 gap-2">
+                <select
+                    value={resultFilter}
+                    onChange={(e) => setResultFilter(e.target.value as ResultFilter)}
+                    className="border rounded p-1"
+                    aria-label="Filter by result"
+                >
+                    <option value="all">Any result</option>
+                    <option value="won">Won</option>
+                    <option value="lost">Lost</option>
+                    <option value="drawn">Drawn</option>
+                </select>
+                <select
+                    value={colorFilter}
+                    onChange={(e) => setColorFilter(e.target.value as ColorFilter)}
+                    className="border rounded p-1"
+                    aria-label="Filter by colour played"
+                >
+                    <option value="all">Either colour</option>
+                    <option value="w">Played White</option>
+                    <option value="b">Played Black</option>
+                </select>
+            </div>
+            <input
+                type="search"
+                value={openingFilter}
+                onChange={(e) => setOpeningFilter(e.target.value)}
+                placeholder="Opening or first moves"
+                className="border rounded p-1"
+            />
+
+            {shown.length === 0 ? (
+                <p className="text-gray-500 text-center py-2">
+                    {games.length === 0 ? 'Finished games are saved here automatically.' : 'No games match.'}
+                </p>
+            ) : (
+                <ul className="max-h-60 overflow-y-auto divide-y">
+                    {shown.map((game) => {
+                        const outcome = outcomeOf(game);
+                        const userColor = userColorOf(game);
+                        return (
+                            <li key={game.id} className="py-1 flex items-center gap-2">
+                                <div className="flex-1 min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <span className={`px-1 rounded font-bold ${outcome ? OUTCOME_STYLES[outcome] : ''}`}>{game.result}</span>
+                                        <span className="text-gray-600">
+                                            {new Date(game.date).toLocaleDateString()}{userColor && ` · as ${userColor === 'w' ? 'White' : 'Black'}`} · {game.moveHistory.length} plies
+                                        </span>
+                                    </div>
+                                    <p className="truncate" title={game.opening}>{game.opening || 'No moves'}</p>
+                                </div>
+                                <button onClick={() => openGame(game)} title="Open for review" aria-label="Open for review" className="p-1 rounded hover:bg-blue-100">
+                                    <FolderOpen className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => deleteGame(game.id)} title="Delete" aria-label="Delete game" className="p-1 rounded hover:bg-red-100 text-red-700">
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <button
+                onClick={() => exportGames(shown)}
+                disabled={shown.length === 0}
+                className="bg-teal-700 hover:bg-teal-600 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
+            >
+                <Download className="w-4 h-4" />
+                Export {shown.length === games.length ? 'all' : 'shown'} ({shown.length}) as PGN
+            </button>
+        </div>
+    );
+};
+
+export default GameLibrary;
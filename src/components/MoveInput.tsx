@@ -0,0 +1,90 @@
+import { PieceSymbol, Square } from 'chess.js';
+import { Keyboard } from 'lucide-react';
+import React, { forwardRef, useState } from 'react';
+import { completeMoveInput, parseMoveInput } from '../game/moveInput';
+
+interface MoveInputProps {
+    /** Position the typed move is played in. */
+    fen: string;
+    disabled: boolean;
+    onMove: (from: Square, to: Square, promotion?: PieceSymbol) => boolean;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Text box for typing moves in SAN or UCI, with the legal moves that fit listed
+ * below it. Tab completes the first of them.
+ */
+const MoveInput = forwardRef<HTMLInputElement, MoveInputProps>(({ fen, disabled, onMove }, ref) => {
+    const [text, setText] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const suggestions = completeMoveInput(fen, text).slice(0, MAX_SUGGESTIONS);
+
+    const play = (moveText: string) => {
+        try {
+            const { from, to, promotion } = parseMoveInput(fen, moveText);
+            if (onMove(from, to, promotion)) setText('');
+            setError(null);
+        } catch (error) {
+            setError(error instanceof Error ? error.message : 'Invalid move');
+        }
+    };
+
+    const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === 'Enter') {
+            event.preventDefault();
+            play(text);
+        } else if (event.key === 'Tab' && suggestions.length > 0 && text !== suggestions[0]) {
+            event.preventDefault();
+            setText(suggestions[0]);
+        } else if (event.key === 'Escape') {
+            setText('');
+            setError(null);
+            event.currentTarget.blur();
+        }
+    };
+
+    return (
+        <div className="mt-2">
+            <div className="flex items-center gap-2">
+                <Keyboard className="w-5 h-5 text-white shrink-0" />
+                <input
+                    ref={ref}
+                    type="text"
+                    value={text}
+                    onChange={(e) => {
+                        setText(e.target.value);
+                        setError(null);
+                    }}
+                    onKeyDown={onKeyDown}
+                    disabled={disabled}
+                    placeholder="Type a move (Nf3, exd5, O-O, g1f3) and press Enter"
+                    className="flex-1 rounded-lg px-3 py-2 font-mono text-blue-900 disabled:bg-gray-300"
+                    aria-label="Move input"
+                    aria-invalid={error !== null}
+                    autoComplete="off"
+                    spellCheck={false}
+                />
+            </div>
+            {error && <p className="mt-1 text-sm text-red-300" role="alert">{error}</p>}
+            {text && suggestions.length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                    {suggestions.map((san) => (
+                        <button
+                            key={san}
+                            onClick={() => play(san)}
+                            className="px-2 py-0.5 rounded bg-blue-700 hover:bg-blue-600 text-white font-mono text-sm"
+                        >
+                            {san}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+});
+
+MoveInput.displayName = 'MoveInput';
+
+export default MoveInput;
@@ -0,0 +1,110 @@
+import { ArrowUpCircle, Trash2 } from 'lucide-react';
+import React from 'react';
+import { MoveNode, MoveTree, isMainLine } from '../game/moveTree';
+import { MoveClassification } from '../game/review';
+import { CLASSIFICATION_STYLES } from './moveClassification';
+
+interface MoveTreeViewProps {
+    tree: MoveTree;
+    /** Review verdicts by node id, for the line that was reviewed. */
+    annotations: Record<string, MoveClassification>;
+    /** Move after which the game left the opening book, marked in the score. */
+    bookExitNodeId?: string | null;
+    onSelect: (nodeId: string) => void;
+    onPromote: (nodeId: string) => void;
+    onDelete: (nodeId: string) => void;
+}
+
+const moveNumberLabel = (parent: MoveNode, forceNumber: boolean): string | null => {
+    const [, turn, , , , fullMove] = parent.fen.split(' ');
+    if (turn === 'w') return `${fullMove}.`;
+    return forceNumber ? `${fullMove}...` : null;
+};
+
+/**
+ * Move history as a tree: the main line reads like a game score, side variations are
+ * nested underneath the move they branch from. Every move can be clicked.
+ */
+const MoveTreeView: React.FC<MoveTreeViewProps> = ({ tree, annotations, bookExitNodeId, onSelect, onPromote, onDelete }) => {
+    const { nodes, currentId } = tree;
+
+    const renderMove = (node: MoveNode, forceNumber: boolean) => {
+        const parent = nodes[node.parentId as string];
+        const number = moveNumberLabel(parent, forceNumber);
+        const classification = annotations[node.id];
+        const style = classification ? CLASSIFICATION_STYLES[classification] : null;
+        return (
+            <React.Fragment key={node.id}>
+                {number && <span className="text-gray-500 ml-1">{number}</span>}
+                <button
+                    onClick={() => onSelect(node.id)}
+                    title={style?.label}
+                    className={`font-medium rounded px-1 hover:bg-blue-100 ${node.id === currentId ? 'bg-blue-200' : ''} ${style?.className ?? ''}`}
+                >
+                    {node.san}{style?.symbol}
+                </button>
+                {node.id === bookExitNodeId && (
+                    <span className="ml-1 px-1 rounded bg-amber-100 text-amber-800 text-xs" title="First move outside the opening book">
+                        out of book
+                    </span>
+                )}
+            </React.Fragment>
+        );
+    };
+
+    const renderLine = (startId: string): React.ReactNode[] => {
+        const items: React.ReactNode[] = [];
+        let forceNumber = true;
+        for (let node: MoveNode | undefined = nodes[startId]; node; node = nodes[node.children[0]]) {
+            items.push(renderMove(node, forceNumber));
+            forceNumber = false;
+
+            const parent = nodes[node.parentId as string];
+            if (parent.children[0] === node.id && parent.children.length > 1) {
+                parent.children.slice(1).forEach((variationId) => {
+                    items.push(
+                        <div key={`variation-${variationId}`} className="w-full flex flex-wrap items-baseline ml-3 pl-2 border-l-2 border-blue-200 text-gray-700 text-xs">
+                            {renderLine(variationId)}
+                        </div>
+                    );
+                });
+                forceNumber = true;
+            }
+        }
+        return items;
+    };
+
+    const root = nodes[tree.rootId];
+    const currentIsMove = currentId !== tree.rootId;
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex flex-wrap items-baseline gap-y-1 text-sm flex-1">
+                {root.children.length > 0
+                    ? renderLine(root.children[0])
+                    : <span className="text-gray-500">No moves yet</span>}
+            </div>
+            {currentIsMove && (
+                <div className="flex gap-2 justify-end pt-2 border-t mt-2 text-xs">
+                    <button
+                        onClick={() => onPromote(currentId)}
+                        disabled={isMainLine(tree, currentId)}
+                        className="flex items-center gap-1 px-2 py-1 rounded bg-blue-100 hover:bg-blue-200 disabled:opacity-40"
+                    >
+                        <ArrowUpCircle className="w-4 h-4" />
+                        Promote variation
+                    </button>
+                    <button
+                        onClick={() => onDelete(currentId)}
+                        className="flex items-center gap-1 px-2 py-1 rounded bg-red-100 hover:bg-red-200 text-red-800"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                        Delete from here
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MoveTreeView;
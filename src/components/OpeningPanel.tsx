@@ -0,0 +1,52 @@
+import { BookOpen } from 'lucide-react';
+import React from 'react';
+import { BookMove, OpeningInfo } from '../game/openings';
+
+interface OpeningPanelProps {
+    /** Opening of the line up to the position on the board. */
+    info: OpeningInfo;
+    /** Full move number of the move that left the book, if it has been left. */
+    leftBookAtMove: string | null;
+    continuations: BookMove[];
+    engineUsesBook: boolean;
+    setEngineUsesBook: (value: boolean) => void;
+}
+
+const OpeningPanel: React.FC<OpeningPanelProps> = ({
+    info,
+    leftBookAtMove,
+    continuations,
+    engineUsesBook,
+    setEngineUsesBook
+}) => {
+    return (
+        <div>
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-bold text-white">Opening</h2>
+                <label className="flex items-center gap-1 text-sm text-white">
+                    <input type="checkbox" checked={engineUsesBook} onChange={(e) => setEngineUsesBook(e.target.checked)} />
+                    Engine plays book moves
+                </label>
+            </div>
+            <div className="mt-2 bg-white rounded-lg p-3 text-blue-900 text-sm">
+                <p className="font-bold flex items-center gap-2">
+                    <BookOpen className="w-4 h-4" />
+                    {info.opening ? `${info.opening.eco} · ${info.opening.name}` : 'Unknown opening'}
+                </p>
+                {leftBookAtMove && <p className="text-gray-600 mt-1">Left the book at move {leftBookAtMove}</p>}
+                {continuations.length > 0 && (
+                    <ul className="mt-2 space-y-0.5 max-h-32 overflow-y-auto">
+                        {continuations.map((move) => (
+                            <li key={move.san} className="flex gap-2">
+                                <span className="font-mono font-bold w-12">{move.san}</span>
+                                <span className="text-gray-600 truncate">{move.opening?.name}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default OpeningPanel;
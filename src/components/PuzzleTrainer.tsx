@@ -0,0 +1,286 @@
+import { DEFAULT_POSITION, PieceSymbol, Square } from 'chess.js';
+import { ArrowLeft, CheckCircle2, Eye, Puzzle as PuzzleIcon, SkipForward, XCircle } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { EngineProvider, formatScore, toWhiteScore, uciToMove } from '../engine';
+import { loadChess, moveTargets, playMove } from '../game/chess960';
+import { checkedKingSquare, SquarePair } from '../game/highlights';
+import { formatMoveSequence, pvToSan } from '../game/notation';
+import { speakMove } from '../game/speech';
+import { isSolution, Puzzle } from '../game/puzzles';
+import { isDue } from '../game/repetition';
+import { useBoardDrawings } from '../hooks/useBoardDrawings';
+import { useAnnouncer } from '../hooks/useAnnouncer';
+import { usePuzzles } from '../hooks/usePuzzles';
+import { Settings } from '../hooks/useSettings';
+import { SavedGame } from '../storage/gameDatabase';
+import ChessBoardPanel from './ChessBoardPanel';
+import { CLASSIFICATION_STYLES } from './moveClassification';
+
+interface PuzzleTrainerProps {
+    engine: EngineProvider;
+    games: SavedGame[];
+    updateGame: (game: SavedGame) => Promise<void>;
+    settings: Settings;
+    setBlindfold: (value: boolean) => void;
+    onExit: () => void;
+}
+
+type Attempt = { status: 'solving' } | { status: 'solved' | 'failed'; fen: string; move: SquarePair | null };
+
+const SOLVING: Attempt = { status: 'solving' };
+
+const byDueDate = (a: Puzzle, b: Puzzle) => a.repetition.due.localeCompare(b.repetition.due);
+
+/**
+ * "Find the best move" training on positions from the user's own games, played on the
+ * same board as the game, with failed puzzles coming back sooner than solved ones.
+ */
+const PuzzleTrainer: React.FC<PuzzleTrainerProps> = ({ engine, games, updateGame, settings, setBlindfold, onExit }) => {
+    const { puzzles, error, pendingGames, progress, findPuzzles, cancel, recordAttempt } = usePuzzles(engine, games, updateGame);
+    // Puzzle on the board; null picks the next one due.
+    const [puzzleId, setPuzzleId] = useState<string | null>(null);
+    const [practiseAhead, setPractiseAhead] = useState(false);
+    const [attempt, setAttempt] = useState<Attempt>(SOLVING);
+    const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
+    const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square } | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [showBestMove, setShowBestMove] = useState(true);
+    const moveInputRef = useRef<HTMLInputElement>(null);
+    const { message: announcement, announce } = useAnnouncer();
+
+    const now = new Date();
+    const queue = [...puzzles].sort(byDueDate);
+    const dueCount = queue.filter((puzzle) => isDue(puzzle.repetition, now)).length;
+    const puzzle = puzzles.find((candidate) => candidate.id === puzzleId)
+        ?? queue.find((candidate) => practiseAhead || isDue(candidate.repetition, now))
+        ?? null;
+
+    const position = attempt.status === 'solving' ? puzzle?.fen ?? DEFAULT_POSITION : attempt.fen;
+    const board = loadChess(position);
+    const drawings = useBoardDrawings(position);
+    const solving = puzzle !== null && attempt.status === 'solving';
+
+    const resetSelection = () => {
+        setSelectedSquare(null);
+        setPendingPromotion(null);
+    };
+
+    const finish = (solved: boolean, fen: string, move: SquarePair | null) => {
+        if (!puzzle) return;
+        recordAttempt(puzzle, solved);
+        setPuzzleId(puzzle.id);
+        setAttempt({ status: solved ? 'solved' : 'failed', fen, move });
+        resetSelection();
+        setMessage(null);
+    };
+
+    const isPromotionMove = (from: Square, to: Square) =>
+        solving && board.moves({ square: from, verbose: true }).some((move) => move.to === to && move.isPromotion());
+    const needsPromotionChoice = (from: Square, to: Square) => !settings.autoQueen && isPromotionMove(from, to);
+
+    const answer = (from: Square, to: Square, promotion?: PieceSymbol): boolean => {
+        if (!puzzle || !solving) return false;
+        try {
+            const move = playMove(puzzle.fen, { from, to, promotion: promotion ?? (isPromotionMove(from, to) ? 'q' : undefined) });
+            const solved = isSolution(puzzle, move.uci);
+            finish(solved, move.after, { from, to });
+            announce(`${speakMove(move.san)}. ${solved ? 'Solved' : 'Not the best move'}`);
+            return true;
+        } catch {
+            setMessage('Illegal move');
+            resetSelection();
+            return false;
+        }
+    };
+
+    const onSquareClick = (square: Square) => {
+        if (!solving) return;
+        const piece = board.get(square);
+        if (selectedSquare && needsPromotionChoice(selectedSquare, square)) {
+            setPendingPromotion({ from: selectedSquare, to: square });
+        } else if (selectedSquare && moveTargets(position, selectedSquare).includes(square)) {
+            // Checked before selecting, as the king castles by moving onto its own rook.
+            answer(selectedSquare, square);
+        } else if (piece && piece.color === board.turn()) {
+            setSelectedSquare(square);
+            setMessage(null);
+        } else if (selectedSquare) {
+            answer(selectedSquare, square);
+        }
+    };
+
+    const onPromotionPieceSelect = (piece?: string, from?: Square, to?: Square): boolean => {
+        const promotionFrom = from ?? pendingPromotion?.from;
+        const promotionTo = to ?? pendingPromotion?.to;
+        resetSelection();
+        if (!piece || !promotionFrom || !promotionTo) return false;
+        return answer(promotionFrom, promotionTo, piece[1].toLowerCase() as PieceSymbol);
+    };
+
+    const giveUp = () => {
+        if (!puzzle) return;
+        const { from, to, promotion } = uciToMove(puzzle.solutions[0]);
+        const move = playMove(puzzle.fen, { from, to, promotion });
+        finish(false, move.after, null);
+        announce(`Solution: ${speakMove(move.san)}`);
+    };
+
+    const nextPuzzle = () => {
+        setPuzzleId(null);
+        setAttempt(SOLVING);
+        resetSelection();
+        setMessage(null);
+    };
+
+    const solution = puzzle && attempt.status !== 'solving'
+        ? formatMoveSequence(puzzle.fen, pvToSan(puzzle.fen, puzzle.line))
+        : null;
+    const turn = puzzle ? loadChess(puzzle.fen).turn() : 'w';
+
+    return (
+        <>
+            <ChessBoardPanel
+                currentPosition={position}
+                onPieceDrop={(from, to) => answer(from, to)}
+                onMoveInput={answer}
+                moveInputDisabled={!solving}
+                moveInputRef={moveInputRef}
+                onSquareClick={onSquareClick}
+                onPromotionCheck={needsPromotionChoice}
+                onPromotionPieceSelect={onPromotionPieceSelect}
+                promotionToSquare={pendingPromotion?.to ?? null}
+                boardOrientation={turn === 'w' ? 'white' : 'black'}
+                selectedSquare={selectedSquare}
+                possibleMoves={selectedSquare ? moveTargets(position, selectedSquare) : []}
+                isAnalyzing={false}
+                lastMove={null}
+                errorMessage={message}
+                gameEndMessage={null}
+                takeBack={() => { }}
+                navigateMove={() => { }}
+                positions={[position]}
+                currentMoveIndex={0}
+                clock={null}
+                clockNow={0}
+                lastMoveSquares={attempt.status === 'solving' ? null : attempt.move}
+                checkSquare={checkedKingSquare(position)}
+                bestMove={puzzle && attempt.status !== 'solving' ? uciToMove(puzzle.solutions[0]) : null}
+                hint={null}
+                threats={[]}
+                drawing={drawings.drawing}
+                onDrawArrow={drawings.toggleArrow}
+                onDrawCircle={drawings.toggleCircle}
+                onClearDrawing={drawings.clear}
+                showBestMove={showBestMove}
+                setShowBestMove={setShowBestMove}
+                showThreats={false}
+                setShowThreats={() => { }}
+                settings={settings}
+                setBlindfold={setBlindfold}
+                announcement={announcement}
+                announce={announce}
+                isSettingUp={false}
+                onSetupDone={() => { }}
+                onSetupCancel={() => { }}
+            />
+            <div className="bg-blue-900 p-6 rounded-xl shadow-2xl flex flex-col space-y-6 lg:w-96">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+                        <PuzzleIcon className="w-6 h-6" />
+                        Puzzle Trainer
+                    </h2>
+                    <button onClick={onExit} className="flex items-center gap-1 text-blue-200 hover:text-white">
+                        <ArrowLeft className="w-4 h-4" />
+                        Back to game
+                    </button>
+                </div>
+
+                <div className="bg-white rounded-lg p-3 text-blue-900 text-sm flex flex-col gap-2">
+                    <p>
+                        {puzzles.length} puzzles from your games · <span className="font-bold">{dueCount} due</span>
+                    </p>
+                    {error && <p className="text-red-700">{error}</p>}
+                    {progress !== null ? (
+                        <>
+                            <div className="h-2 bg-blue-100 rounded-full overflow-hidden">
+                                <div className="h-full bg-green-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+                            </div>
+                            <div className="flex justify-between items-center">
+                                <span>Searching your games… {Math.round(progress * 100)}%</span>
+                                <button onClick={cancel} className="underline">Stop</button>
+                            </div>
+                        </>
+                    ) : (
+                        <button
+                            onClick={findPuzzles}
+                            disabled={pendingGames.length === 0}
+                            className="bg-green-700 hover:bg-green-600 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+                        >
+                            {pendingGames.length === 0
+                                ? 'All saved games searched'
+                                : `Find puzzles in ${pendingGames.length} new ${pendingGames.length === 1 ? 'game' : 'games'}`}
+                        </button>
+                    )}
+                </div>
+
+                {puzzle ? (
+                    <div className="bg-white rounded-lg p-3 text-blue-900 text-sm flex flex-col gap-2">
+                        {attempt.status === 'solving' ? (
+                            <>
+                                <p className="font-bold text-base">{turn === 'w' ? 'White' : 'Black'} to play. Find the best move.</p>
+                                <p className="text-gray-600">
+                                    In the game you played {puzzle.playedSan},{' '}
+                                    <span className={CLASSIFICATION_STYLES[puzzle.classification].className}>
+                                        {CLASSIFICATION_STYLES[puzzle.classification].label.toLowerCase()}
+                                    </span>.
+                                </p>
+                                <button onClick={giveUp} className="flex items-center justify-center gap-2 bg-gray-200 hover:bg-gray-300 font-bold py-2 rounded-lg">
+                                    <Eye className="w-4 h-4" />
+                                    Show solution
+                                </button>
+                            </>
+                        ) : (
+                            <>
+                                <p className={`font-bold text-base flex items-center gap-2 ${attempt.status === 'solved' ? 'text-green-700' : 'text-red-700'}`}>
+                                    {attempt.status === 'solved' ? <CheckCircle2 className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+                                    {attempt.status === 'solved' ? 'Correct!' : 'Not the best move'}
+                                </p>
+                                <p>
+                                    Engine line: <span className="font-mono">{solution}</span>{' '}
+                                    ({formatScore(toWhiteScore(puzzle.score, puzzle.fen))})
+                                </p>
+                                <p className="text-gray-600">
+                                    {attempt.status === 'solved'
+                                        ? `Next review in ${puzzle.repetition.intervalDays} ${puzzle.repetition.intervalDays === 1 ? 'day' : 'days'}.`
+                                        : 'This puzzle will come back shortly.'}
+                                </p>
+                                <button
+                                    onClick={nextPuzzle}
+                                    className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 rounded-lg"
+                                >
+                                    <SkipForward className="w-4 h-4" />
+                                    Next puzzle
+                                </button>
+                            </>
+                        )}
+                    </div>
+                ) : (
+                    <div className="bg-white rounded-lg p-3 text-blue-900 text-sm flex flex-col gap-2">
+                        <p>
+                            {puzzles.length === 0
+                                ? 'Finish some games, then search them for the positions where things went wrong.'
+                                : `No puzzles due. The next one is due ${new Date(queue[0].repetition.due).toLocaleString()}.`}
+                        </p>
+                        {puzzles.length > 0 && (
+                            <button onClick={() => setPractiseAhead(true)} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 rounded-lg">
+                                Practise ahead of schedule
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </>
+    );
+};
+
+export default PuzzleTrainer;
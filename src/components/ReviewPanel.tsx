@@ -0,0 +1,84 @@
+import { GraduationCap } from 'lucide-react';
+import React from 'react';
+import { formatScore } from '../engine';
+import { GameReview } from '../game/review';
+import { CLASSIFICATION_STYLES, CRITICAL_CLASSIFICATIONS } from './moveClassification';
+
+interface ReviewPanelProps {
+    review: GameReview | null;
+    /** Share of positions analysed so far (0-1), or null when no review is running. */
+    progress: number | null;
+    canReview: boolean;
+    startReview: () => void;
+    goToPosition: (index: number) => void;
+}
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({
+    review,
+    progress,
+    canReview,
+    startReview,
+    goToPosition
+}) => {
+    const criticalMoves = review?.moves.filter((move) => CRITICAL_CLASSIFICATIONS.includes(move.classification)) ?? [];
+
+    return (
+        <div>
+            <h2 className="text-xl font-bold text-white">Game Review</h2>
+            {progress !== null ? (
+                <div className="mt-2">
+                    <div className="h-2 bg-blue-950 rounded-full overflow-hidden">
+                        <div className="h-full bg-green-400 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+                    </div>
+                    <p className="text-blue-200 text-sm mt-1">Analysing positions… {Math.round(progress * 100)}%</p>
+                </div>
+            ) : (
+                <button
+                    onClick={startReview}
+                    disabled={!canReview}
+                    className="mt-2 w-full bg-green-700 hover:bg-green-600 disabled:bg-gray-500 text-white font-bold py-3 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
+                >
+                    <GraduationCap className="w-6 h-6" />
+                    {review ? 'Review again' : 'Review game'}
+                </button>
+            )}
+
+            {review && (
+                <div className="mt-3 bg-white rounded-lg p-3 text-blue-900 text-sm">
+                    <div className="flex justify-around font-bold mb-2">
+                        <span>White accuracy {review.accuracy.w.toFixed(1)}%</span>
+                        <span>Black accuracy {review.accuracy.b.toFixed(1)}%</span>
+                    </div>
+                    {criticalMoves.length === 0 ? (
+                        <p className="text-gray-600 text-center">No mistakes found.</p>
+                    ) : (
+                        <ul className="space-y-1 max-h-48 overflow-y-auto">
+                            {criticalMoves.map((move) => {
+                                const style = CLASSIFICATION_STYLES[move.classification];
+                                const moveNumber = `${move.moveNumber}${move.color === 'w' ? '.' : '...'}`;
+                                return (
+                                    <li key={move.ply}>
+                                        <button
+                                            onClick={() => goToPosition(move.ply)}
+                                            className="w-full text-left hover:bg-blue-50 rounded px-1"
+                                            title="Show the position before this move"
+                                        >
+                                            <span className={`font-bold ${style.className}`}>
+                                                {moveNumber} {move.san}{style.symbol}
+                                            </span>
+                                            <span className="text-gray-600">
+                                                {' '}{style.label} ({formatScore(move.evalBefore)} → {formatScore(move.evalAfter)}), best was {move.bestMoveSan}
+                                            </span>
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReviewPanel;
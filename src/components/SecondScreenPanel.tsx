@@ -0,0 +1,51 @@
+import { ExternalLink, MonitorUp } from 'lucide-react';
+import React from 'react';
+
+interface SecondScreenPanelProps {
+    /** Spectator tabs open, in the order they joined. */
+    spectators: string[];
+    openSpectatorView: () => void;
+    handOverControl: (tabId: string) => void;
+}
+
+/**
+ * Opens spectator tabs mirroring the game, e.g. on a projector next to a physical
+ * board, and hands control of the game to one of them.
+ */
+const SecondScreenPanel: React.FC<SecondScreenPanelProps> = ({ spectators, openSpectatorView, handOverControl }) => {
+    return (
+        <div>
+            <h2 className="text-xl font-bold text-white">Second screen</h2>
+            <div className="mt-2 bg-white rounded-lg p-3 text-blue-900 text-sm flex flex-col gap-2">
+                <button
+                    onClick={openSpectatorView}
+                    className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 rounded-lg"
+                >
+                    <ExternalLink className="w-4 h-4" />
+                    Open spectator view
+                </button>
+                {spectators.length === 0 ? (
+                    <p className="text-gray-600">No spectator tab open.</p>
+                ) : (
+                    <ul className="space-y-1">
+                        {spectators.map((tabId, index) => (
+                            <li key={tabId} className="flex justify-between items-center">
+                                <span>Spectator {index + 1}</span>
+                                <button
+                                    onClick={() => handOverControl(tabId)}
+                                    title="Play on from that tab; this one becomes a spectator"
+                                    className="flex items-center gap-1 underline hover:text-blue-600"
+                                >
+                                    <MonitorUp className="w-4 h-4" />
+                                    Hand control
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SecondScreenPanel;
@@ -0,0 +1,203 @@
+import { Settings as SettingsIcon, X } from 'lucide-react';
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { Settings } from '../hooks/useSettings';
+import { BOARD_THEMES, PIECE_SETS, PieceSetId } from './boardThemes';
+import StrengthSelect from './StrengthSelect';
+
+interface SettingsPanelProps {
+    settings: Settings;
+    onChange: (change: Partial<Settings>) => void;
+    onReset: () => void;
+    onClose: () => void;
+}
+
+type Toggle = { [K in keyof Settings]: Settings[K] extends boolean ? K : never }[keyof Settings];
+
+const ANIMATION_SPEEDS = [
+    { ms: 0, label: 'Off' },
+    { ms: 150, label: 'Fast' },
+    { ms: 300, label: 'Normal' },
+    { ms: 600, label: 'Slow' },
+];
+const BOARD_WIDTHS = [480, 640, 800, 960, 1120];
+const MULTI_PV_OPTIONS = [1, 2, 3, 4, 5];
+
+/**
+ * Preferences for the board, highlights, moves and the engine, saved as they change.
+ */
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onReset, onClose }) => {
+    const toggle = (key: Toggle, label: string) => (
+        <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings[key]} onChange={(e) => onChange({ [key]: e.target.checked })} />
+            {label}
+        </label>
+    );
+
+    const section = (title: string, children: React.ReactNode) => (
+        <section className="flex flex-col gap-2">
+            <h3 className="font-bold text-blue-900">{title}</h3>
+            {children}
+        </section>
+    );
+
+    // Rendered into the body, out of the scaled app layout, to cover the whole window.
+    return createPortal(
+        <div
+            className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4"
+            onClick={onClose}
+        >
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="settings-title"
+                className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 text-sm text-blue-900 flex flex-col gap-5"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between">
+                    <h2 id="settings-title" className="text-xl font-bold flex items-center gap-2">
+                        <SettingsIcon className="w-5 h-5" />
+                        Settings
+                    </h2>
+                    <button onClick={onClose} aria-label="Close settings" className="p-1 rounded hover:bg-blue-100">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {section('Board', (
+                    <>
+                        <div className="grid grid-cols-4 gap-2" role="radiogroup" aria-label="Board theme">
+                            {BOARD_THEMES.map((theme) => (
+                                <button
+                                    key={theme.id}
+                                    role="radio"
+                                    aria-checked={settings.boardTheme === theme.id}
+                                    onClick={() => onChange({ boardTheme: theme.id })}
+                                    className={`rounded-lg border-2 p-1 flex flex-col items-center gap-1 ${settings.boardTheme === theme.id ? 'border-blue-700' : 'border-transparent hover:border-blue-200'}`}
+                                >
+                                    <span className="grid grid-cols-2 w-10 h-10 rounded overflow-hidden">
+                                        <span style={{ backgroundColor: theme.light }} />
+                                        <span style={{ backgroundColor: theme.dark }} />
+                                        <span style={{ backgroundColor: theme.dark }} />
+                                        <span style={{ backgroundColor: theme.light }} />
+                                    </span>
+                                    <span className="text-xs">{theme.label}</span>
+                                </button>
+                            ))}
+                        </div>
+                        <label className="flex items-center justify-between gap-2">
+                            Pieces
+                            <select
+                                value={settings.pieceSet}
+                                onChange={(e) => onChange({ pieceSet: e.target.value as PieceSetId })}
+                                className="p-1 rounded border border-blue-200"
+                            >
+                                {PIECE_SETS.map((set) => (
+                                    <option key={set.id} value={set.id}>{set.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex items-center justify-between gap-2">
+                            Largest board size
+                            <select
+                                value={settings.maxBoardWidth}
+                                onChange={(e) => onChange({ maxBoardWidth: Number(e.target.value) })}
+                                className="p-1 rounded border border-blue-200"
+                            >
+                                {BOARD_WIDTHS.map((width) => (
+                                    <option key={width} value={width}>{width}px</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex items-center justify-between gap-2">
+                            Orientation
+                            <select
+                                value={settings.orientation}
+                                onChange={(e) => onChange({ orientation: e.target.value as Settings['orientation'] })}
+                                className="p-1 rounded border border-blue-200"
+                            >
+                                <option value="player">Side chosen at the start at the bottom</option>
+                                <option value="white">White at the bottom</option>
+                                <option value="black">Black at the bottom</option>
+                            </select>
+                        </label>
+                        {toggle('showCoordinates', 'Show coordinates')}
+                        {toggle('blindfold', 'Blindfold (hide the pieces)')}
+                    </>
+                ))}
+
+                {section('Highlights', (
+                    <>
+                        {toggle('highlightLastMove', 'Last move')}
+                        {toggle('highlightCheck', 'King in check')}
+                        {toggle('showLegalMoves', 'Legal moves of the selected piece')}
+                        {toggle('showBestMove', 'Best move arrow')}
+                        {toggle('showThreats', 'Threat arrows')}
+                    </>
+                ))}
+
+                {section('Moves', (
+                    <>
+                        <label className="flex items-center justify-between gap-2">
+                            Animation speed
+                            <select
+                                value={settings.animationMs}
+                                onChange={(e) => onChange({ animationMs: Number(e.target.value) })}
+                                className="p-1 rounded border border-blue-200"
+                            >
+                                {ANIMATION_SPEEDS.map((speed) => (
+                                    <option key={speed.ms} value={speed.ms}>{speed.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        {toggle('moveSounds', 'Move sounds')}
+                        {toggle('autoQueen', 'Always promote to a queen')}
+                    </>
+                ))}
+
+                {section('Engine', (
+                    <>
+                        <label className="flex flex-col gap-1">
+                            Strength
+                            <StrengthSelect
+                                value={settings.strengthId}
+                                onChange={(strengthId) => onChange({ strengthId })}
+                                className="border border-blue-200"
+                            />
+                        </label>
+                        {toggle('analysisEnabled', 'Live analysis')}
+                        <label className="flex items-center justify-between gap-2">
+                            Analysis lines
+                            <select
+                                value={settings.multiPv}
+                                onChange={(e) => onChange({ multiPv: Number(e.target.value) })}
+                                className="p-1 rounded border border-blue-200"
+                            >
+                                {MULTI_PV_OPTIONS.map((count) => (
+                                    <option key={count} value={count}>{count}</option>
+                                ))}
+                            </select>
+                        </label>
+                        {toggle('engineUsesBook', 'Engine plays book moves')}
+                        {toggle('engineUsesClock', 'Engine uses its clock in timed games')}
+                    </>
+                ))}
+
+                <div className="flex justify-between">
+                    <button onClick={onReset} className="underline text-blue-700 hover:text-blue-900">
+                        Restore defaults
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="bg-blue-700 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+                    >
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default SettingsPanel;
@@ -1,84 +1,351 @@
 import {
-    Brain,
     ChevronLeft,
     ChevronRight,
+    Download,
+    Flag,
+    Handshake,
+    LayoutGrid,
+    Library,
+    Lightbulb,
+    Pause,
+    Play,
+    Puzzle,
+    Redo2,
     RotateCcw,
+    Settings,
+    Undo2,
+    Upload,
     X
 } from 'lucide-react';
-import React from 'react';
+import React, { useState } from 'react';
+import { CoachProvider, MoveContext } from '../coach';
+import { MoveTree } from '../game/moveTree';
+import { BookMove, OpeningInfo } from '../game/openings';
+import { getPlayerMode, PlayerModeId } from '../game/players';
+import { describeClaim, DrawClaim } from '../game/result';
+import { GameReview, MoveClassification } from '../game/review';
+import { EngineAnalysis } from '../hooks/useEngineAnalysis';
+import { SavedGame } from '../storage/gameDatabase';
+import AnalysisPanel from './AnalysisPanel';
+import CoachPanel from './CoachPanel';
+import GameLibrary from './GameLibrary';
+import MoveTreeView from './MoveTreeView';
+import OpeningPanel from './OpeningPanel';
+import ReviewPanel from './ReviewPanel';
+import SecondScreenPanel from './SecondScreenPanel';
+import StrengthSelect from './StrengthSelect';
 
 interface SidePanelProps {
     playerColor: 'w' | 'b';
-    manualColor: 'w' | 'b' | null;
+    playerMode: PlayerModeId;
+    coach: CoachProvider;
+    /** Move on the board for the coach to explain, or null at the start. */
+    coachContext: MoveContext | null;
+    coachMoveLabel: string | null;
+    hasApiKey: boolean;
     showApiInput: boolean;
     setShowApiInput: (value: boolean) => void;
     setApiKey: (key: string) => void;
     gameStatus: string;
     moveHistory: string[];
+    moveTree: MoveTree;
+    annotations: Record<string, MoveClassification>;
+    selectNode: (nodeId: string) => void;
+    promoteVariation: (nodeId: string) => void;
+    deleteVariation: (nodeId: string) => void;
     positions: string[];
     currentMoveIndex: number;
     navigateMove: (direction: 'forward' | 'back') => void;
     startNewGame: (color: 'w' | 'b') => void;
     changeColor: () => void;
     toggleBoardView: () => void;
-    undoLastManualMove: () => void;
+    /** Takes back the given number of half-moves from where the game stands. */
+    takeBack: (plies: number) => void;
+    redo: () => void;
+    canTakeBack: boolean;
+    canRedo: boolean;
+    playFromHere: () => void;
+    /** Whether the board shows where the game stands rather than a browsed position. */
+    isLive: boolean;
+    /** Whether the auto side is waiting after a takeback. */
+    autoPaused: boolean;
+    exportPgn: () => void;
+    importPgn: (pgn: string) => boolean;
+    openPositionSetup: () => void;
+    engineName: string;
+    strengthId: string;
+    setStrengthId: (profileId: string) => void;
+    opponentStrengthId: string;
+    setOpponentStrengthId: (profileId: string) => void;
+    /** Move suggested for the position on the board, in SAN. */
+    hint: string | null;
+    isHintPending: boolean;
+    /** Whether the side to move is moved by hand, so a hint can be asked for. */
+    canHint: boolean;
+    requestHint: () => void;
+    /** Resigns for the side moved by hand; null when nobody can resign. */
+    resign: (() => void) | null;
+    /** Offers a draw to the other side; null when nobody can offer one. */
+    offerDraw: (() => void) | null;
+    isDrawOfferPending: boolean;
+    /** Whether the engine turned down a draw offer in the position the game stands in. */
+    drawOfferDeclined: boolean;
+    /** Draw the side to move may claim where the game stands. */
+    drawClaim: DrawClaim | null;
+    claimDraw: () => void;
+    /** Stops engine vs engine play; shown while it is running. */
+    pauseEngines: (() => void) | null;
+    analysis: EngineAnalysis;
+    analysisEnabled: boolean;
+    setAnalysisEnabled: (value: boolean) => void;
+    multiPv: number;
+    setMultiPv: (value: number) => void;
+    goToPosition: (index: number) => void;
+    review: GameReview | null;
+    reviewProgress: number | null;
+    startReview: () => void;
+    openingInfo: OpeningInfo;
+    bookContinuations: BookMove[];
+    engineUsesBook: boolean;
+    setEngineUsesBook: (value: boolean) => void;
+    /** Move that left the opening book on the line shown. */
+    bookExitNodeId: string | null;
+    savedGames: SavedGame[];
+    libraryError: string | null;
+    openSavedGame: (game: SavedGame) => void;
+    deleteSavedGame: (id: string) => void;
+    exportSavedGames: (games: SavedGame[]) => void;
+    openTrainer: () => void;
+    /** Spectator tabs following the game; null when tabs cannot share it. */
+    spectators: string[] | null;
+    openSpectatorView: () => void;
+    handOverControl: (tabId: string) => void;
+    openSettings: () => void;
 }
 
 const SidePanel: React.FC<SidePanelProps> = ({
     playerColor,
-    manualColor,
+    playerMode,
+    coach,
+    coachContext,
+    coachMoveLabel,
+    hasApiKey,
+    showApiInput,
+    setShowApiInput,
+    setApiKey,
     gameStatus,
     moveHistory,
+    moveTree,
+    annotations,
+    selectNode,
+    promoteVariation,
+    deleteVariation,
     positions,
     currentMoveIndex,
     navigateMove,
     startNewGame,
     changeColor,
     toggleBoardView,
-    undoLastManualMove
+    takeBack,
+    redo,
+    canTakeBack,
+    canRedo,
+    playFromHere,
+    isLive,
+    autoPaused,
+    exportPgn,
+    importPgn,
+    openPositionSetup,
+    engineName,
+    strengthId,
+    setStrengthId,
+    opponentStrengthId,
+    setOpponentStrengthId,
+    hint,
+    isHintPending,
+    canHint,
+    requestHint,
+    resign,
+    offerDraw,
+    isDrawOfferPending,
+    drawOfferDeclined,
+    drawClaim,
+    claimDraw,
+    pauseEngines,
+    analysis,
+    analysisEnabled,
+    setAnalysisEnabled,
+    multiPv,
+    setMultiPv,
+    goToPosition,
+    review,
+    reviewProgress,
+    startReview,
+    openingInfo,
+    bookContinuations,
+    engineUsesBook,
+    setEngineUsesBook,
+    bookExitNodeId,
+    savedGames,
+    libraryError,
+    openSavedGame,
+    deleteSavedGame,
+    exportSavedGames,
+    openTrainer,
+    spectators,
+    openSpectatorView,
+    handOverControl,
+    openSettings
 }) => {
+    const [showPgnInput, setShowPgnInput] = useState(false);
+    const [showLibrary, setShowLibrary] = useState(false);
+
+    const leftBookAtMove = (() => {
+        if (openingInfo.leftBookAt === null) return null;
+        const [, turn, , , , fullMove] = positions[openingInfo.leftBookAt].split(' ');
+        return turn === 'w' ? fullMove : `${fullMove}...`;
+    })();
+    const [pgnText, setPgnText] = useState('');
+
+    const loadPgn = () => {
+        if (importPgn(pgnText)) {
+            setPgnText('');
+            setShowPgnInput(false);
+        }
+    };
+
+    const loadPgnFile = async (file: File | undefined) => {
+        if (!file) return;
+        setPgnText(await file.text());
+    };
 
     return (
         <div className="bg-blue-900 p-6 pt-0 rounded-xl shadow-2xl flex flex-col space-y-6">
             <div>
                 <h2 className="text-xl font-bold text-white mb-2">Move History</h2>
                 <div className="bg-white rounded-lg p-4 h-64 overflow-y-auto text-blue-900">
-                    <div className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm">
-                        <div className="col-span-3 grid grid-cols-3 gap-x-4 font-bold border-b pb-2">
-                            <div>#</div>
-                            <div>White</div>
-                            <div>Black</div>
-                        </div>
-                        {Array.from({ length: Math.ceil(moveHistory.length / 2) }).map((_, i) => (
-                            <React.Fragment key={i}>
-                                <div className="text-gray-500">{i + 1}.</div>
-                                <div className="font-medium">{moveHistory[i * 2] || ''}</div>
-                                <div className="font-medium">{moveHistory[i * 2 + 1] || ''}</div>
-                            </React.Fragment>
-                        ))}
-                    </div>
+                    <MoveTreeView
+                        tree={moveTree}
+                        annotations={annotations}
+                        bookExitNodeId={bookExitNodeId}
+                        onSelect={selectNode}
+                        onPromote={promoteVariation}
+                        onDelete={deleteVariation}
+                    />
                 </div>
             </div>
             <div>
                 <h2 className="text-2xl font-bold text-white">Game Status</h2>
-                <p className="text-blue-300 mt-2">
-                    Auto side: {playerColor === 'w' ? 'White' : 'Black'} (played by Stockfish)
-                </p>
-                <p className="text-blue-200 mt-1 whitespace-pre-line">
-                    {manualColor === 'w'
-                        ? "• Manually play White moves\n• Stockfish will play Black moves for a rapid win"
-                        : "• Manually play Black moves\n• Stockfish will play White moves for a rapid win"}
-                </p>
+                {playerMode === 'companion' ? (
+                    <>
+                        <p className="text-blue-300 mt-2">
+                            Auto side: {playerColor === 'w' ? 'White' : 'Black'} (played by Stockfish)
+                        </p>
+                        <p className="text-blue-200 mt-1 whitespace-pre-line">
+                            {playerColor === 'b'
+                                ? "• Manually play White moves\n• Stockfish will play Black moves for a rapid win"
+                                : "• Manually play Black moves\n• Stockfish will play White moves for a rapid win"}
+                        </p>
+                    </>
+                ) : (
+                    <p className="text-blue-300 mt-2">
+                        {getPlayerMode(playerMode).label}: {getPlayerMode(playerMode).description}
+                    </p>
+                )}
                 <p className="mt-2 font-semibold text-white">{gameStatus}</p>
+                {playerMode === 'companion' && (
+                    <label className="block mt-3 text-sm text-blue-200">
+                        Engine strength (applies from its next move)
+                        <StrengthSelect value={strengthId} onChange={setStrengthId} className="mt-1" />
+                    </label>
+                )}
+                {playerMode === 'engine-vs-engine' && (
+                    <div className="grid grid-cols-2 gap-2 mt-3 text-sm text-blue-200">
+                        <label>
+                            {playerColor === 'w' ? 'White' : 'Black'} engine
+                            <StrengthSelect value={strengthId} onChange={setStrengthId} className="mt-1" />
+                        </label>
+                        <label>
+                            {playerColor === 'w' ? 'Black' : 'White'} engine
+                            <StrengthSelect value={opponentStrengthId} onChange={setOpponentStrengthId} className="mt-1" />
+                        </label>
+                    </div>
+                )}
+                {playerMode !== 'engine-vs-engine' && (
+                    <div className="mt-3 flex items-center gap-3">
+                        <button
+                            onClick={requestHint}
+                            disabled={!canHint || isHintPending}
+                            className="bg-yellow-500 hover:bg-yellow-400 disabled:bg-gray-500 text-blue-950 font-bold py-2 px-4 rounded-xl shadow transition-colors flex items-center gap-2"
+                        >
+                            <Lightbulb className="w-5 h-5" />
+                            {isHintPending ? 'Thinking…' : 'Hint'}
+                        </button>
+                        {hint && <span className="text-white">Try <span className="font-mono font-bold">{hint}</span></span>}
+                    </div>
+                )}
+                {drawClaim && (
+                    <button
+                        onClick={claimDraw}
+                        className="mt-3 w-full bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
+                    >
+                        <Handshake className="w-5 h-5" />
+                        {describeClaim(drawClaim)}
+                    </button>
+                )}
+                {resign && offerDraw && (
+                    <div className="mt-3 flex flex-wrap items-center gap-3">
+                        <button
+                            onClick={resign}
+                            className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-xl shadow transition-colors flex items-center gap-2"
+                        >
+                            <Flag className="w-5 h-5" />
+                            Resign
+                        </button>
+                        <button
+                            onClick={offerDraw}
+                            disabled={isDrawOfferPending || drawOfferDeclined}
+                            className="bg-gray-200 hover:bg-gray-300 disabled:bg-gray-500 text-blue-900 font-bold py-2 px-4 rounded-xl shadow transition-colors flex items-center gap-2"
+                        >
+                            <Handshake className="w-5 h-5" />
+                            {isDrawOfferPending ? 'Thinking…' : 'Offer draw'}
+                        </button>
+                        {drawOfferDeclined && <span className="text-white text-sm">Draw declined</span>}
+                    </div>
+                )}
             </div>
 
-            <div>
-                <h2 className="text-xl font-bold text-white">Chess Engine</h2>
-                <div className="mt-2 bg-green-200 text-green-800 px-3 py-2 rounded-lg flex items-center gap-2">
-                    <Brain className="w-5 h-5" />
-                    <span className="text-sm font-semibold">Stockfish is ready</span>
-                </div>
-            </div>
+            <OpeningPanel
+                info={openingInfo}
+                leftBookAtMove={leftBookAtMove}
+                continuations={bookContinuations}
+                engineUsesBook={engineUsesBook}
+                setEngineUsesBook={setEngineUsesBook}
+            />
+            <AnalysisPanel
+                engineName={engineName}
+                analysis={analysis}
+                enabled={analysisEnabled}
+                setEnabled={setAnalysisEnabled}
+                multiPv={multiPv}
+                setMultiPv={setMultiPv}
+            />
+            <CoachPanel
+                coach={coach}
+                context={coachContext}
+                moveLabel={coachMoveLabel}
+                hasApiKey={hasApiKey}
+                showApiInput={showApiInput}
+                setShowApiInput={setShowApiInput}
+                setApiKey={setApiKey}
+            />
+            <ReviewPanel
+                review={review}
+                progress={reviewProgress}
+                canReview={moveHistory.length > 0}
+                startReview={startReview}
+                goToPosition={goToPosition}
+            />
             <div className="flex flex-col space-y-4">
                 <button
                     onClick={() => startNewGame(playerColor)}
@@ -87,6 +354,13 @@ const SidePanel: React.FC<SidePanelProps> = ({
                     <RotateCcw className="w-6 h-6" />
                     New Game
                 </button>
+                <button
+                    onClick={openPositionSetup}
+                    className="w-full bg-blue-700 hover:bg-blue-600 text-white font-bold py-3 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
+                >
+                    <LayoutGrid className="w-6 h-6" />
+                    Set up position
+                </button>
 
             </div>
 
@@ -98,8 +372,61 @@ const SidePanel: React.FC<SidePanelProps> = ({
                     <span>Flip Board</span>
                 </button>
             </div>
+            {spectators && (
+                <SecondScreenPanel spectators={spectators} openSpectatorView={openSpectatorView} handOverControl={handOverControl} />
+            )}
 
 
+            <div className="flex flex-col gap-2">
+                <div className="grid grid-cols-3 gap-2">
+                    <button
+                        onClick={() => takeBack(2)}
+                        disabled={!canTakeBack}
+                        title="Take back a full move (both sides)"
+                        className="bg-red-700 hover:bg-red-600 disabled:bg-gray-500 text-white font-bold py-2 px-3 rounded-xl shadow transition-colors flex items-center justify-center gap-1"
+                    >
+                        <Undo2 className="w-5 h-5" />
+                        Move
+                    </button>
+                    <button
+                        onClick={() => takeBack(1)}
+                        disabled={!canTakeBack}
+                        title="Take back a single half-move"
+                        className="bg-red-700 hover:bg-red-600 disabled:bg-gray-500 text-white font-bold py-2 px-3 rounded-xl shadow transition-colors flex items-center justify-center gap-1"
+                    >
+                        <Undo2 className="w-5 h-5" />
+                        Ply
+                    </button>
+                    <button
+                        onClick={redo}
+                        disabled={!canRedo}
+                        title="Replay the next taken-back half-move"
+                        className="bg-red-700 hover:bg-red-600 disabled:bg-gray-500 text-white font-bold py-2 px-3 rounded-xl shadow transition-colors flex items-center justify-center gap-1"
+                    >
+                        <Redo2 className="w-5 h-5" />
+                        Redo
+                    </button>
+                </div>
+                {pauseEngines && (
+                    <button
+                        onClick={pauseEngines}
+                        className="w-full bg-yellow-600 hover:bg-yellow-500 text-white font-bold py-2 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
+                    >
+                        <Pause className="w-5 h-5" />
+                        Pause engines
+                    </button>
+                )}
+                {(!isLive || autoPaused) && (
+                    <button
+                        onClick={playFromHere}
+                        className="w-full bg-green-700 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
+                    >
+                        <Play className="w-5 h-5" />
+                        {isLive ? 'Resume engine' : 'Play from here'}
+                    </button>
+                )}
+            </div>
+
             <div className="flex justify-between items-center mt-4">
                 <button
                     onClick={() => navigateMove('back')}
@@ -120,18 +447,96 @@ const SidePanel: React.FC<SidePanelProps> = ({
                 </button>
             </div>
 
+            <div>
+                <div className="flex flex-row items-center justify-between gap-2">
+                    <button
+                        onClick={exportPgn}
+                        className="w-full bg-teal-700 hover:bg-teal-600 text-white font-bold py-3 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
+                    >
+                        <Download className="w-5 h-5" />
+                        Export PGN
+                    </button>
+                    <button
+                        onClick={() => setShowPgnInput((prev) => !prev)}
+                        className="w-full bg-teal-700 hover:bg-teal-600 text-white font-bold py-3 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
+                    >
+                        <Upload className="w-5 h-5" />
+                        Import PGN
+                    </button>
+                </div>
+                {showPgnInput && (
+                    <div className="mt-4 bg-white rounded-lg p-4 text-blue-900 flex flex-col gap-2">
+                        <div className="flex justify-between items-center">
+                            <span className="font-bold">Paste a PGN or choose a file</span>
+                            <button onClick={() => setShowPgnInput(false)} aria-label="Close PGN import">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <textarea
+                            value={pgnText}
+                            onChange={(e) => setPgnText(e.target.value)}
+                            rows={6}
+                            className="w-full border rounded p-2 font-mono text-xs"
+                            placeholder={'[Event "..."]\n\n1. e4 e5 2. Nf3 ...'}
+                        />
+                        <input
+                            type="file"
+                            accept=".pgn,text/plain"
+                            onChange={(e) => loadPgnFile(e.target.files?.[0])}
+                            className="text-sm"
+                        />
+                        <button
+                            onClick={loadPgn}
+                            disabled={!pgnText.trim()}
+                            className="bg-blue-700 hover:bg-blue-600 disabled:bg-gray-400 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+                        >
+                            Load game
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-col space-y-4">
+                <button
+                    onClick={openTrainer}
+                    className="w-full bg-teal-700 hover:bg-teal-600 text-white font-bold py-3 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
+                >
+                    <Puzzle className="w-5 h-5" />
+                    Train on puzzles from my games
+                </button>
+                <button
+                    onClick={() => setShowLibrary((prev) => !prev)}
+                    className="w-full bg-teal-700 hover:bg-teal-600 text-white font-bold py-3 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
+                >
+                    <Library className="w-5 h-5" />
+                    {showLibrary ? 'Hide' : 'Show'} game library ({savedGames.length})
+                </button>
+                {showLibrary && (
+                    <div>
+                        <GameLibrary
+                            games={savedGames}
+                            error={libraryError}
+                            openGame={openSavedGame}
+                            deleteGame={deleteSavedGame}
+                            exportGames={exportSavedGames}
+                        />
+                    </div>
+                )}
+            </div>
+
             <div className='flex flex-row items-center justify-between gap-2'>
                 <button
-                    onClick={changeColor}
+                    onClick={openSettings}
                     className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
                 >
-                    Change Color
+                    <Settings className="w-5 h-5" />
+                    Settings
                 </button>
                 <button
-                    onClick={undoLastManualMove}
-                    className="w-full bg-red-700 hover:bg-red-600 text-white font-bold py-3 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
+                    onClick={changeColor}
+                    className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-xl shadow transition-colors flex items-center justify-center gap-2"
                 >
-                    <span>Undo Move</span>
+                    Change Color
                 </button>
             </div>
         </div>
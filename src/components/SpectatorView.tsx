@@ -0,0 +1,151 @@
+import { Eye } from 'lucide-react';
+import React, { CSSProperties, useEffect, useMemo, useState } from 'react';
+import { Chessboard } from 'react-chessboard';
+import { useSettings } from '../hooks/useSettings';
+import { useSpectatedGame } from '../hooks/useSpectatedGame';
+import { SpectatorSnapshot } from '../sync/gameChannel';
+import { customPieces, getBoardTheme } from './boardThemes';
+import ChessClock from './ChessClock';
+import EvaluationBar from './EvaluationBar';
+
+const CLOCK_TICK_MS = 100;
+const LAST_MOVE_STYLE: CSSProperties = { backgroundColor: 'rgba(155, 199, 0, 0.41)' };
+const CHECK_STYLE: CSSProperties = {
+    background: 'radial-gradient(circle, rgba(255, 0, 0, 0.8) 0%, rgba(231, 0, 0, 0.5) 40%, transparent 75%)',
+};
+
+const boardSize = () => Math.max(Math.min(window.innerHeight * 0.8, window.innerWidth * 0.6), 300);
+
+/**
+ * Move numbers for the game score, e.g. `12.` before White's moves and `12...` before a
+ * first move by Black.
+ */
+function moveLabels({ startFen, moveHistory }: SpectatorSnapshot): (string | null)[] {
+    const [, turn, , , , fullMove] = startFen.split(' ');
+    let moveNumber = Number(fullMove) || 1;
+    let whiteToMove = turn !== 'b';
+    return moveHistory.map((_, index) => {
+        const label = whiteToMove ? `${moveNumber}.` : index === 0 ? `${moveNumber}...` : null;
+        if (!whiteToMove) moveNumber += 1;
+        whiteToMove = !whiteToMove;
+        return label;
+    });
+}
+
+/**
+ * Read-only second screen following the game played in another tab: board, clocks,
+ * evaluation and move list, sized for a projector.
+ */
+const SpectatorView: React.FC = () => {
+    const { supported, snapshot } = useSpectatedGame();
+    // The look set in the main window, which shares the saved settings.
+    const { settings } = useSettings();
+    const pieces = useMemo(() => customPieces(settings.pieceSet), [settings.pieceSet]);
+    const [boardWidth, setBoardWidth] = useState(boardSize);
+    const [clockNow, setClockNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const handleResize = () => setBoardWidth(boardSize());
+        window.addEventListener('resize', handleResize);
+        return () => window.removeEventListener('resize', handleResize);
+    }, []);
+
+    useEffect(() => {
+        if (!snapshot?.clock?.running) return;
+        const timer = setInterval(() => setClockNow(Date.now()), CLOCK_TICK_MS);
+        return () => clearInterval(timer);
+    }, [snapshot?.clock]);
+
+    if (!snapshot) {
+        return (
+            <div className="min-h-screen bg-gradient-to-b from-blue-900 to-blue-800 flex items-center justify-center p-4">
+                <div className="bg-blue-50 p-8 rounded-xl shadow-2xl max-w-md text-center text-blue-900">
+                    <h1 className="text-2xl font-bold mb-4 flex items-center justify-center gap-2">
+                        <Eye className="w-6 h-6" />
+                        Spectator view
+                    </h1>
+                    <p>
+                        {supported
+                            ? 'Waiting for the game… Start or resume a game in the main Chess Companion window.'
+                            : 'This browser cannot share the game between tabs (BroadcastChannel is unavailable).'}
+                    </p>
+                </div>
+            </div>
+        );
+    }
+
+    const { boardOrientation, clock } = snapshot;
+    const theme = getBoardTheme(settings.boardTheme);
+    const squareStyles: Record<string, CSSProperties> = {};
+    if (settings.highlightLastMove && snapshot.lastMoveSquares) {
+        squareStyles[snapshot.lastMoveSquares.from] = LAST_MOVE_STYLE;
+        squareStyles[snapshot.lastMoveSquares.to] = LAST_MOVE_STYLE;
+    }
+    if (settings.highlightCheck && snapshot.checkSquare) squareStyles[snapshot.checkSquare] = { ...squareStyles[snapshot.checkSquare], ...CHECK_STYLE };
+    const labels = moveLabels(snapshot);
+
+    return (
+        <div className="min-h-screen bg-gradient-to-b from-blue-900 to-blue-800 gap-8 flex items-center max-lg:flex-col justify-center p-4">
+            <div>
+                {clock && (
+                    <div className="flex justify-end mb-2">
+                        <ChessClock clock={clock} color={boardOrientation === 'white' ? 'b' : 'w'} now={clockNow} />
+                    </div>
+                )}
+                <div className="flex gap-2">
+                    {snapshot.evaluation !== undefined && (
+                        <EvaluationBar score={snapshot.evaluation} height={boardWidth} boardOrientation={boardOrientation} />
+                    )}
+                    <Chessboard
+                        position={snapshot.fen}
+                        boardWidth={boardWidth}
+                        boardOrientation={boardOrientation}
+                        arePiecesDraggable={false}
+                        customBoardStyle={{
+                            borderRadius: "4px",
+                            boxShadow:
+                                "0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)",
+                        }}
+                        customDarkSquareStyle={{ backgroundColor: theme.dark }}
+                        customLightSquareStyle={{ backgroundColor: theme.light }}
+                        customPieces={pieces}
+                        showBoardNotation={settings.showCoordinates}
+                        animationDuration={settings.animationMs}
+                        customSquareStyles={squareStyles}
+                        areArrowsAllowed={false}
+                    />
+                </div>
+                {clock && (
+                    <div className="flex justify-end mt-2">
+                        <ChessClock clock={clock} color={boardOrientation === 'white' ? 'w' : 'b'} now={clockNow} />
+                    </div>
+                )}
+            </div>
+            <div className="bg-blue-900 p-6 rounded-xl shadow-2xl flex flex-col gap-4 lg:w-96 self-stretch">
+                <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+                    <Eye className="w-6 h-6" />
+                    Spectating
+                </h2>
+                <p className="text-xl font-semibold text-white">{snapshot.status}</p>
+                <div className="bg-white rounded-lg p-3 text-blue-900 flex-1 overflow-y-auto max-h-[60vh]">
+                    {snapshot.moveHistory.length === 0 ? (
+                        <p className="text-gray-500">No moves yet</p>
+                    ) : (
+                        <p className="leading-relaxed">
+                            {snapshot.moveHistory.map((san, index) => (
+                                <React.Fragment key={index}>
+                                    {labels[index] && <span className="text-gray-500 ml-1">{labels[index]}</span>}
+                                    <span className={`font-medium rounded px-1 ${index + 1 === snapshot.currentMoveIndex ? 'bg-blue-200' : ''}`}>
+                                        {san}
+                                    </span>
+                                </React.Fragment>
+                            ))}
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SpectatorView;
@@ -0,0 +1,74 @@
+import { Square } from 'chess.js';
+import React, { useMemo, useRef, useState } from 'react';
+import { loadChess } from '../game/chess960';
+import { describeSquare } from '../game/speech';
+
+interface SquareGridProps {
+    fen: string;
+    boardOrientation: 'white' | 'black';
+    selectedSquare: Square | null;
+    possibleMoves: Square[];
+    onSquareClick: (square: Square) => void;
+}
+
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+const RANKS = ['8', '7', '6', '5', '4', '3', '2', '1'];
+const STEPS: Record<string, [number, number]> = {
+    ArrowUp: [-1, 0],
+    ArrowDown: [1, 0],
+    ArrowLeft: [0, -1],
+    ArrowRight: [0, 1],
+};
+
+/**
+ * The board as a grid of buttons for screen readers, hidden from view. Arrow keys move
+ * between squares, each read with its piece, and Enter or Space clicks the square as on
+ * the board: once to select a piece, once more on its target to move it.
+ */
+const SquareGrid: React.FC<SquareGridProps> = ({ fen, boardOrientation, selectedSquare, possibleMoves, onSquareClick }) => {
+    const [focused, setFocused] = useState<Square>('e2');
+    const board = useMemo(() => loadChess(fen), [fen]);
+    const cellsRef = useRef<Partial<Record<Square, HTMLButtonElement | null>>>({});
+    const files = boardOrientation === 'white' ? FILES : [...FILES].reverse();
+    const ranks = boardOrientation === 'white' ? RANKS : [...RANKS].reverse();
+
+    const onKeyDown = (event: React.KeyboardEvent, row: number, column: number) => {
+        const step = STEPS[event.key];
+        if (!step) return;
+        // Keeps the arrow keys from also browsing the moves.
+        event.preventDefault();
+        event.stopPropagation();
+        const square = `${files[Math.min(Math.max(column + step[1], 0), 7)]}${ranks[Math.min(Math.max(row + step[0], 0), 7)]}` as Square;
+        setFocused(square);
+        cellsRef.current[square]?.focus();
+    };
+
+    return (
+        <div role="grid" aria-label="Chess board" className="sr-only">
+            {ranks.map((rank, row) => (
+                <div role="row" key={rank}>
+                    {files.map((file, column) => {
+                        const square = `${file}${rank}` as Square;
+                        const state = square === selectedSquare ? ', selected' : possibleMoves.includes(square) ? ', legal move' : '';
+                        return (
+                            <div role="gridcell" key={square}>
+                                <button
+                                    ref={(element) => {
+                                        cellsRef.current[square] = element;
+                                    }}
+                                    tabIndex={square === focused ? 0 : -1}
+                                    aria-label={`${describeSquare(board, square)}${state}`}
+                                    onFocus={() => setFocused(square)}
+                                    onKeyDown={(event) => onKeyDown(event, row, column)}
+                                    onClick={() => onSquareClick(square)}
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default SquareGrid;
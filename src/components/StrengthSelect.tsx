@@ -0,0 +1,30 @@
+import React from 'react';
+import { describeStrengthProfile, STRENGTH_PROFILES } from '../engine';
+
+interface StrengthSelectProps {
+    value: string;
+    onChange: (profileId: string) => void;
+    className?: string;
+}
+
+/**
+ * Picker for the engine's strength profile, listing what each one limits.
+ */
+const StrengthSelect: React.FC<StrengthSelectProps> = ({ value, onChange, className = '' }) => {
+    return (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className={`w-full rounded-lg p-2 text-blue-900 ${className}`}
+            aria-label="Engine strength"
+        >
+            {STRENGTH_PROFILES.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                    {profile.label} — {describeStrengthProfile(profile)}
+                </option>
+            ))}
+        </select>
+    );
+};
+
+export default StrengthSelect;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { TIME_CONTROL_PRESETS, TimeControl } from '../game/clock';
+
+interface TimeControlPickerProps {
+    /** Selected time control, or null for an untimed game. */
+    value: TimeControl | null;
+    onChange: (timeControl: TimeControl | null) => void;
+    engineUsesClock: boolean;
+    setEngineUsesClock: (value: boolean) => void;
+}
+
+const UNTIMED = 'none';
+const CUSTOM = 'custom';
+
+const presetIdOf = (value: TimeControl | null): string => {
+    if (!value) return UNTIMED;
+    const preset = TIME_CONTROL_PRESETS.find(({ timeControl }) =>
+        timeControl.baseMs === value.baseMs &&
+        timeControl.incrementMs === value.incrementMs &&
+        timeControl.delayMs === value.delayMs);
+    return preset?.id ?? CUSTOM;
+};
+
+/**
+ * Time control chooser: presets, an untimed game, or custom base time, increment and delay.
+ */
+const TimeControlPicker: React.FC<TimeControlPickerProps> = ({ value, onChange, engineUsesClock, setEngineUsesClock }) => {
+    const [isCustom, setIsCustom] = useState(() => presetIdOf(value) === CUSTOM);
+    const selected = isCustom ? CUSTOM : presetIdOf(value);
+    const custom = value ?? TIME_CONTROL_PRESETS[0].timeControl;
+
+    const selectPreset = (id: string) => {
+        setIsCustom(id === CUSTOM);
+        if (id === CUSTOM) {
+            onChange(custom);
+        } else {
+            onChange(TIME_CONTROL_PRESETS.find((preset) => preset.id === id)?.timeControl ?? null);
+        }
+    };
+
+    const updateCustom = (field: keyof TimeControl, unitMs: number, input: string) => {
+        const amount = Number(input);
+        if (!Number.isFinite(amount) || amount < 0 || (field === 'baseMs' && amount === 0)) return;
+        onChange({ ...custom, [field]: Math.round(amount * unitMs) });
+    };
+
+    const numberField = (label: string, field: keyof TimeControl, unitMs: number, min: number) => (
+        <label className="flex flex-col text-xs font-normal">
+            {label}
+            <input
+                type="number"
+                min={min}
+                step="any"
+                value={custom[field] / unitMs}
+                onChange={(e) => updateCustom(field, unitMs, e.target.value)}
+                className="mt-1 border border-blue-200 rounded p-1 text-blue-900"
+            />
+        </label>
+    );
+
+    return (
+        <div className="flex flex-col gap-2">
+            <select
+                value={selected}
+                onChange={(e) => selectPreset(e.target.value)}
+                className="w-full rounded-lg p-2 text-blue-900 border border-blue-200 font-normal"
+                aria-label="Time control"
+            >
+                <option value={UNTIMED}>No clock</option>
+                {TIME_CONTROL_PRESETS.map((preset) => (
+                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                ))}
+                <option value={CUSTOM}>Custom…</option>
+            </select>
+            {isCustom && (
+                <div className="grid grid-cols-3 gap-2">
+                    {numberField('Minutes', 'baseMs', 60000, 0.25)}
+                    {numberField('Increment (s)', 'incrementMs', 1000, 0)}
+                    {numberField('Delay (s)', 'delayMs', 1000, 0)}
+                </div>
+            )}
+            {value && (
+                <label className="flex items-center gap-2 text-sm font-normal">
+                    <input type="checkbox" checked={engineUsesClock} onChange={(e) => setEngineUsesClock(e.target.checked)} />
+                    Engine budgets its thinking time from its clock
+                </label>
+            )}
+        </div>
+    );
+};
+
+export default TimeControlPicker;
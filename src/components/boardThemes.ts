@@ -0,0 +1,66 @@
+import { ComponentProps, createElement } from 'react';
+import { Chessboard } from 'react-chessboard';
+
+type CustomPieces = NonNullable<ComponentProps<typeof Chessboard>['customPieces']>;
+
+export type BoardThemeId = 'wood' | 'green' | 'blue' | 'gray';
+export type PieceSetId = 'standard' | 'glyphs' | 'letters';
+
+export interface BoardTheme {
+    id: BoardThemeId;
+    label: string;
+    dark: string;
+    light: string;
+}
+
+export const BOARD_THEMES: BoardTheme[] = [
+    { id: 'wood', label: 'Wood', dark: '#945E3D', light: '#DEB887' },
+    { id: 'green', label: 'Tournament green', dark: '#769656', light: '#EEEED2' },
+    { id: 'blue', label: 'Blue', dark: '#4B7399', light: '#EAE9D2' },
+    { id: 'gray', label: 'Slate', dark: '#7D8796', light: '#DCDFE4' },
+];
+
+export const PIECE_SETS: { id: PieceSetId; label: string }[] = [
+    { id: 'standard', label: 'Standard' },
+    { id: 'glyphs', label: 'Unicode glyphs' },
+    { id: 'letters', label: 'Letters' },
+];
+
+export function getBoardTheme(id: BoardThemeId): BoardTheme {
+    return BOARD_THEMES.find((theme) => theme.id === id) ?? BOARD_THEMES[0];
+}
+
+/** Pieces drawn as nothing, for blindfold play. */
+export const HIDDEN_PIECES: CustomPieces = Object.fromEntries(
+    ['w', 'b'].flatMap((color) => ['K', 'Q', 'R', 'B', 'N', 'P'].map((type) => [`${color}${type}`, () => null])),
+);
+
+const GLYPHS: Record<string, string> = { K: '♚', Q: '♛', R: '♜', B: '♝', N: '♞', P: '♟' };
+
+/**
+ * Pieces drawn as text for the board's `customPieces`, or undefined for its own pieces.
+ * Glyphs use the solid symbols for both sides, coloured, so they read the same in any font.
+ */
+export function customPieces(id: PieceSetId): CustomPieces | undefined {
+    if (id === 'standard') return undefined;
+    const pieces: CustomPieces = {};
+    for (const color of ['w', 'b'] as const) {
+        for (const type of ['K', 'Q', 'R', 'B', 'N', 'P']) {
+            pieces[`${color}${type}` as keyof CustomPieces] = ({ squareWidth }) => createElement('div', {
+                style: {
+                    width: squareWidth,
+                    height: squareWidth,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    fontSize: squareWidth * (id === 'glyphs' ? 0.8 : 0.55),
+                    fontWeight: 700,
+                    color: color === 'w' ? '#FFFFFF' : '#111111',
+                    textShadow: color === 'w' ? '0 0 2px #000, 0 0 1px #000' : '0 0 2px #FFF',
+                    userSelect: 'none',
+                },
+            }, id === 'glyphs' ? GLYPHS[type] : type);
+        }
+    }
+    return pieces;
+}
@@ -0,0 +1,20 @@
+import { MoveClassification } from '../game/review';
+
+interface ClassificationStyle {
+    label: string;
+    /** Annotation appended to the move in the history, as in printed game scores. */
+    symbol: string;
+    className: string;
+}
+
+export const CLASSIFICATION_STYLES: Record<MoveClassification, ClassificationStyle> = {
+    'best': { label: 'Best move', symbol: '!', className: 'text-green-700' },
+    'good': { label: 'Good move', symbol: '', className: 'text-blue-900' },
+    'inaccuracy': { label: 'Inaccuracy', symbol: '?!', className: 'text-yellow-600' },
+    'mistake': { label: 'Mistake', symbol: '?', className: 'text-orange-600' },
+    'blunder': { label: 'Blunder', symbol: '??', className: 'text-red-700' },
+    'missed-mate': { label: 'Missed mate', symbol: '?', className: 'text-purple-700' },
+};
+
+/** Classifications worth jumping to when going over a game. */
+export const CRITICAL_CLASSIFICATIONS: MoveClassification[] = ['missed-mate', 'blunder', 'mistake', 'inaccuracy'];
@@ -0,0 +1,51 @@
+/**
+ * Base class for everything that can go wrong while asking an engine for a move.
+ * The message is meant to be shown to the user as-is.
+ */
+export class EngineError extends Error {
+    readonly retryable: boolean;
+
+    constructor(message: string, retryable: boolean) {
+        super(message);
+        this.name = 'EngineError';
+        this.retryable = retryable;
+    }
+}
+
+export class EngineTimeoutError extends EngineError {
+    constructor(engineName: string, timeoutMs: number) {
+        super(`${engineName} did not answer within ${Number((timeoutMs / 1000).toFixed(1))}s`, true);
+        this.name = 'EngineTimeoutError';
+    }
+}
+
+export class EngineAbortedError extends EngineError {
+    constructor() {
+        super('Engine search was cancelled', false);
+        this.name = 'EngineAbortedError';
+    }
+}
+
+export class EngineNetworkError extends EngineError {
+    constructor(engineName: string, detail?: string) {
+        super(`Could not reach ${engineName}${detail ? ` (${detail})` : ''}`, true);
+        this.name = 'EngineNetworkError';
+    }
+}
+
+export class EngineResponseError extends EngineError {
+    constructor(engineName: string, detail: string) {
+        super(`${engineName} returned an invalid answer: ${detail}`, false);
+        this.name = 'EngineResponseError';
+    }
+}
+
+export class EngineCrashError extends EngineError {
+    constructor(engineName: string, detail: string) {
+        super(`${engineName} stopped working: ${detail}`, false);
+        this.name = 'EngineCrashError';
+    }
+}
+
+export const isAbortError = (error: unknown): error is EngineAbortedError =>
+    error instanceof EngineAbortedError;
@@ -0,0 +1,38 @@
+import { LocalEngine } from './localEngine';
+import { MockEngine } from './mockEngine';
+import { RemoteEngine } from './remoteEngine';
+import { ResilientEngine } from './resilientEngine';
+import { EngineConfig, EngineKind, EngineProvider } from './types';
+
+export * from './errors';
+export * from './types';
+export * from './score';
+export * from './strength';
+export { uciToMove, usesChess960Castling } from './uci';
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+    timeoutMs: 20000,
+    retries: 1,
+    retryDelayMs: 500,
+};
+
+const ENGINE_KINDS: EngineKind[] = ['local', 'remote', 'mock'];
+
+/**
+ * Engine backend picked at build time with `VITE_ENGINE_PROVIDER`; defaults to the bundled Stockfish.
+ */
+export const DEFAULT_ENGINE_KIND: EngineKind = ENGINE_KINDS.includes(import.meta.env.VITE_ENGINE_PROVIDER as EngineKind)
+    ? import.meta.env.VITE_ENGINE_PROVIDER as EngineKind
+    : 'local';
+
+/**
+ * Creates an engine backend wrapped with timeouts, retries and cancellation.
+ */
+export function createEngine(kind: EngineKind = DEFAULT_ENGINE_KIND, config: Partial<EngineConfig> = {}): EngineProvider {
+    const backend = kind === 'remote'
+        ? new RemoteEngine()
+        : kind === 'mock'
+            ? new MockEngine()
+            : new LocalEngine();
+    return new ResilientEngine(backend, { ...DEFAULT_ENGINE_CONFIG, ...config });
+}
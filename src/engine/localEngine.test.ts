@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EngineAbortedError, EngineCrashError } from './errors';
+import { LocalEngine, StockfishInstance } from './localEngine';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/**
+ * Stands in for the Stockfish worker: answers the UCI handshake and every search with
+ * e2e4, straight away up to depth 10 and deeper ones only once told to stop.
+ */
+class FakeWorker {
+    static instances: FakeWorker[] = [];
+    onmessage: ((event: { data: string }) => void) | null = null;
+    onerror: ((event: { message: string }) => void) | null = null;
+    /** Leaves searches unanswered, as a worker about to crash would. */
+    hangs = false;
+    terminated = false;
+
+    constructor() {
+        FakeWorker.instances.push(this);
+    }
+
+    postMessage(command: string) {
+        if (command === 'uci') this.reply('uciok');
+        if (command === 'isready') this.reply('readyok');
+        if (command.startsWith('go') && !this.hangs && Number(/depth (\d+)/.exec(command)?.[1]) <= 10) {
+            this.reply('info depth 1 multipv 1 score cp 30 pv e2e4');
+            this.reply('bestmove e2e4');
+        }
+        if (command === 'stop') this.reply('bestmove e2e4');
+    }
+
+    crash() {
+        this.onerror?.({ message: 'out of memory' });
+    }
+
+    terminate() {
+        this.terminated = true;
+    }
+
+    private reply(line: string) {
+        setTimeout(() => this.onmessage?.({ data: line }));
+    }
+}
+
+beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('self', { crossOriginIsolated: false });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('LocalEngine', () => {
+    it('starts the worker on first use and keeps it', async () => {
+        const engine = new LocalEngine(new StockfishInstance());
+        expect(FakeWorker.instances).toHaveLength(0);
+
+        expect(await engine.bestMove(START, { depth: 1 })).toBe('e2e4');
+        expect((await engine.analyse(START, { depth: 1 })).lines[0].score).toEqual({ type: 'cp', value: 30 });
+        expect(FakeWorker.instances).toHaveLength(1);
+    });
+
+    it('replaces a crashed worker on the next request', async () => {
+        const engine = new LocalEngine(new StockfishInstance());
+        await engine.bestMove(START, { depth: 1 });
+        const [crashed] = FakeWorker.instances;
+        crashed.hangs = true;
+
+        const search = engine.bestMove(START, { depth: 1 });
+        crashed.crash();
+        await expect(search).rejects.toBeInstanceOf(EngineCrashError);
+        expect(crashed.terminated).toBe(true);
+
+        expect(await engine.bestMove(START, { depth: 1 })).toBe('e2e4');
+        expect(FakeWorker.instances).toHaveLength(2);
+    });
+
+    it('shares one worker between engines', async () => {
+        const instance = new StockfishInstance();
+        await new LocalEngine(instance).bestMove(START, { depth: 1 });
+        await new LocalEngine(instance).analyse(START, { depth: 1 });
+        expect(FakeWorker.instances).toHaveLength(1);
+    });
+
+    it('cuts background analysis short for another engine\'s search', async () => {
+        const instance = new StockfishInstance();
+        const analysis = new LocalEngine(instance).analyse(START, { depth: 30, background: true });
+        const move = new LocalEngine(instance).bestMove(START, { depth: 1 });
+
+        expect(await move).toBe('e2e4');
+        expect((await analysis).bestMove).toBe('e2e4');
+    });
+
+    it('stops only its own searches', async () => {
+        const instance = new StockfishInstance();
+        const [searching, other] = [new LocalEngine(instance), new LocalEngine(instance)];
+        const search = searching.bestMove(START, { depth: 30 });
+        let settled = false;
+        search.catch(() => undefined).finally(() => {
+            settled = true;
+        });
+
+        other.stop();
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(settled).toBe(false);
+
+        searching.stop();
+        await expect(search).rejects.toBeInstanceOf(EngineAbortedError);
+    });
+});
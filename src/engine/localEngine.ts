@@ -0,0 +1,76 @@
+import { EngineCrashError } from './errors';
+import { SearchRequest, StockfishWorker } from './stockfishWorker';
+import { AnalyseOptions, AnalysisResult, BestMoveOptions, EngineProvider } from './types';
+
+/**
+ * The Stockfish worker local engines search with, started on first use and replaced on
+ * the next request once it crashes. Each worker loads its own hash table and network,
+ * so the engines of a page share one and take turns.
+ */
+export class StockfishInstance {
+    private worker: StockfishWorker | null = null;
+
+    get(): StockfishWorker {
+        if (!this.worker) {
+            this.worker = new StockfishWorker();
+        }
+        return this.worker;
+    }
+
+    /** Drops a worker that stopped working, if it is still the current one. */
+    discard(worker: StockfishWorker) {
+        if (this.worker !== worker) return;
+        worker.terminate();
+        this.worker = null;
+    }
+}
+
+const SHARED_INSTANCE = new StockfishInstance();
+
+/**
+ * Bundled Stockfish running in a Web Worker. Works offline. Searches wait for those of
+ * other local engines on the same worker; background analysis gives way to them.
+ */
+export class LocalEngine implements EngineProvider {
+    readonly name = 'Local Stockfish';
+    private instance: StockfishInstance;
+    private controllers = new Set<AbortController>();
+
+    constructor(instance: StockfishInstance = SHARED_INSTANCE) {
+        this.instance = instance;
+    }
+
+    async bestMove(fen: string, { signal, depth, movetime, nodes, skillLevel, elo }: BestMoveOptions): Promise<string> {
+        const result = await this.search(fen, { depth, movetime, nodes, skillLevel, elo, multiPv: 1 }, signal);
+        return result.bestMove;
+    }
+
+    analyse(fen: string, { signal, depth, movetime, nodes, skillLevel, elo, multiPv = 1, background, onUpdate }: AnalyseOptions): Promise<AnalysisResult> {
+        return this.search(fen, { depth, movetime, nodes, skillLevel, elo, multiPv, background, onUpdate }, signal);
+    }
+
+    /** Stops this engine's searches, leaving those of other engines on the worker alone. */
+    stop() {
+        this.controllers.forEach((controller) => controller.abort());
+        this.controllers.clear();
+    }
+
+    private async search(fen: string, request: Omit<SearchRequest, 'signal'>, signal?: AbortSignal): Promise<AnalysisResult> {
+        const worker = this.instance.get();
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        if (signal?.aborted) controller.abort();
+        signal?.addEventListener('abort', onAbort);
+        this.controllers.add(controller);
+        try {
+            return await worker.search(fen, { ...request, signal: controller.signal });
+        } catch (error) {
+            // A crashed worker fails every search from then on.
+            if (error instanceof EngineCrashError) this.instance.discard(worker);
+            throw error;
+        } finally {
+            signal?.removeEventListener('abort', onAbort);
+            this.controllers.delete(controller);
+        }
+    }
+}
@@ -0,0 +1,103 @@
+import { Chess, Move, PieceSymbol } from 'chess.js';
+import { EngineAbortedError, EngineResponseError } from './errors';
+import { AnalyseOptions, AnalysisResult, BestMoveOptions, EngineLine, EngineProvider } from './types';
+import { usesChess960Castling } from './uci';
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 100, n: 300, b: 300, r: 500, q: 900, k: 0 };
+
+export interface MockEngineOptions {
+    /** Artificial thinking time, useful for exercising timeouts and cancellation. */
+    delayMs?: number;
+}
+
+/**
+ * Deterministic one-ply engine for tests and offline development: mates first, then the
+ * move that wins the most material, ties broken alphabetically by UCI notation.
+ * It never castles in Chess960 positions, whose castling chess.js does not know.
+ */
+export class MockEngine implements EngineProvider {
+    readonly name = 'Mock engine';
+    private delayMs: number;
+    private controllers = new Set<AbortController>();
+
+    constructor({ delayMs = 0 }: MockEngineOptions = {}) {
+        this.delayMs = delayMs;
+    }
+
+    async bestMove(fen: string, { signal }: BestMoveOptions): Promise<string> {
+        const result = await this.analyse(fen, { signal });
+        return result.bestMove;
+    }
+
+    async analyse(fen: string, { signal, multiPv = 1, onUpdate }: AnalyseOptions): Promise<AnalysisResult> {
+        await this.think(signal);
+
+        const lines = rankMoves(fen).slice(0, multiPv);
+        if (lines.length === 0) {
+            throw new EngineResponseError(this.name, 'no legal move in this position');
+        }
+        onUpdate?.(lines);
+        return { bestMove: lines[0].pv[0], lines };
+    }
+
+    stop() {
+        this.controllers.forEach((controller) => controller.abort());
+        this.controllers.clear();
+    }
+
+    private think(signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new EngineAbortedError());
+                return;
+            }
+            const controller = new AbortController();
+            const timer = setTimeout(() => {
+                cleanup();
+                resolve();
+            }, this.delayMs);
+            const onAbort = () => {
+                clearTimeout(timer);
+                cleanup();
+                reject(new EngineAbortedError());
+            };
+            const cleanup = () => {
+                signal?.removeEventListener('abort', onAbort);
+                this.controllers.delete(controller);
+            };
+            signal?.addEventListener('abort', onAbort);
+            controller.signal.addEventListener('abort', onAbort);
+            this.controllers.add(controller);
+        });
+    }
+}
+
+function rankMoves(fen: string): EngineLine[] {
+    const fields = fen.trim().split(/\s+/);
+    if (usesChess960Castling(fen)) fields[2] = '-';
+    const game = new Chess(fields.join(' '));
+    return game.moves({ verbose: true })
+        .map((move: Move) => {
+            const after = new Chess(move.after);
+            const score = after.isCheckmate()
+                ? { type: 'mate' as const, value: 1 }
+                : { type: 'cp' as const, value: material(after, game.turn()) };
+            return { move, score };
+        })
+        .sort((a, b) => {
+            const rank = (s: { type: string; value: number }) => (s.type === 'mate' ? 100000 : s.value);
+            return rank(b.score) - rank(a.score) || a.move.lan.localeCompare(b.move.lan);
+        })
+        .map(({ move, score }, index) => ({ multiPv: index + 1, depth: 1, score, pv: [move.lan] }));
+}
+
+/**
+ * Material balance in centipawns from the point of view of `color` (default: side to move).
+ */
+function material(game: Chess, color = game.turn()): number {
+    return game.board().flat().reduce((sum, piece) => {
+        if (!piece) return sum;
+        const value = PIECE_VALUES[piece.type];
+        return sum + (piece.color === color ? value : -value);
+    }, 0);
+}
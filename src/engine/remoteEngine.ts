@@ -0,0 +1,89 @@
+import axios from 'axios';
+import { EngineAbortedError, EngineError, EngineNetworkError, EngineResponseError } from './errors';
+import { AnalyseOptions, AnalysisResult, BestMoveOptions, EngineProvider, EngineScore } from './types';
+import { parseBestMove, usesChess960Castling } from './uci';
+
+const API_URL = 'https://stockfish.online/api/s/v2.php';
+/** The online API rejects deeper searches. */
+const MAX_DEPTH = 15;
+
+interface OnlineResponse {
+    success: boolean;
+    bestmove?: string;
+    evaluation?: number | null;
+    mate?: number | null;
+    continuation?: string;
+    data?: string;
+}
+
+/**
+ * Stockfish hosted at stockfish.online. Only supports depth-limited, single-line searches.
+ */
+export class RemoteEngine implements EngineProvider {
+    readonly name = 'stockfish.online';
+    private controllers = new Set<AbortController>();
+
+    async bestMove(fen: string, { signal, depth }: BestMoveOptions): Promise<string> {
+        const result = await this.analyse(fen, { signal, depth });
+        return result.bestMove;
+    }
+
+    async analyse(fen: string, { signal, depth = MAX_DEPTH, onUpdate }: AnalyseOptions): Promise<AnalysisResult> {
+        if (usesChess960Castling(fen)) {
+            throw new EngineError(`${this.name} does not support Chess960`, false);
+        }
+        const searchDepth = Math.min(depth, MAX_DEPTH);
+        const data = await this.request(fen, searchDepth, signal);
+
+        const bestMove = data.bestmove ? parseBestMove(data.bestmove) : null;
+        if (!data.success || !bestMove) {
+            throw new EngineResponseError(this.name, data.data ?? 'no best move');
+        }
+
+        const pv = data.continuation ? data.continuation.split(' ').filter(Boolean) : [bestMove];
+        const lines = [{ multiPv: 1, depth: searchDepth, score: toScore(data, fen), pv }];
+        onUpdate?.(lines);
+        return { bestMove, lines };
+    }
+
+    stop() {
+        this.controllers.forEach((controller) => controller.abort());
+        this.controllers.clear();
+    }
+
+    private async request(fen: string, depth: number, signal?: AbortSignal): Promise<OnlineResponse> {
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort);
+        this.controllers.add(controller);
+        try {
+            if (signal?.aborted) throw new EngineAbortedError();
+            const response = await axios.post<OnlineResponse>(API_URL, undefined, {
+                params: { fen, depth },
+                signal: controller.signal,
+            });
+            return response.data;
+        } catch (error) {
+            if (axios.isCancel(error)) throw new EngineAbortedError();
+            if (axios.isAxiosError(error)) {
+                throw new EngineNetworkError(this.name, error.response ? `HTTP ${error.response.status}` : error.message);
+            }
+            throw error;
+        } finally {
+            signal?.removeEventListener('abort', onAbort);
+            this.controllers.delete(controller);
+        }
+    }
+}
+
+/**
+ * The API reports evaluations in pawns from White's point of view; engine scores are
+ * centipawns from the side to move.
+ */
+function toScore(data: OnlineResponse, fen: string): EngineScore {
+    const sign = fen.split(' ')[1] === 'b' ? -1 : 1;
+    if (data.mate !== null && data.mate !== undefined) {
+        return { type: 'mate', value: data.mate * sign };
+    }
+    return { type: 'cp', value: Math.round((data.evaluation ?? 0) * 100) * sign };
+}
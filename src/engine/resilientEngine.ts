@@ -0,0 +1,98 @@
+import { EngineAbortedError, EngineError, EngineTimeoutError } from './errors';
+import { AnalyseOptions, AnalysisResult, BestMoveOptions, EngineConfig, EngineProvider, RequestOptions } from './types';
+
+/**
+ * Wraps a backend with per-attempt timeouts, retries of transient failures and reliable
+ * cancellation: once the caller's signal aborts or `stop()` is called, the request
+ * rejects with an `EngineAbortedError` even if the backend is slow to notice.
+ */
+export class ResilientEngine implements EngineProvider {
+    private inner: EngineProvider;
+    private config: EngineConfig;
+    private controllers = new Set<AbortController>();
+
+    constructor(inner: EngineProvider, config: EngineConfig) {
+        this.inner = inner;
+        this.config = config;
+    }
+
+    get name() {
+        return this.inner.name;
+    }
+
+    bestMove(fen: string, options: BestMoveOptions): Promise<string> {
+        return this.run(options, (signal) => this.inner.bestMove(fen, { ...options, signal }));
+    }
+
+    analyse(fen: string, options: AnalyseOptions): Promise<AnalysisResult> {
+        return this.run(options, (signal) => this.inner.analyse(fen, { ...options, signal }));
+    }
+
+    stop() {
+        this.controllers.forEach((controller) => controller.abort());
+        this.controllers.clear();
+        this.inner.stop();
+    }
+
+    private async run<T>(options: RequestOptions, request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        const timeoutMs = options.timeoutMs ?? this.config.timeoutMs;
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.attempt(request, timeoutMs, options.signal);
+            } catch (error) {
+                const engineError = this.toEngineError(error);
+                if (!engineError.retryable || attempt >= this.config.retries || options.signal?.aborted) {
+                    throw engineError;
+                }
+                console.warn(`${this.name} attempt ${attempt + 1} failed, retrying:`, engineError.message);
+                await delay(this.config.retryDelayMs, options.signal);
+            }
+        }
+    }
+
+    private attempt<T>(request: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+        if (signal?.aborted) return Promise.reject(new EngineAbortedError());
+
+        const controller = new AbortController();
+        this.controllers.add(controller);
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort);
+
+        const cancelled = new Promise<never>((_, reject) => {
+            controller.signal.addEventListener('abort', () => reject(new EngineAbortedError()));
+            if (timeoutMs > 0) {
+                timer = setTimeout(() => {
+                    reject(new EngineTimeoutError(this.name, timeoutMs));
+                    controller.abort();
+                }, timeoutMs);
+            }
+        });
+
+        return Promise.race([request(controller.signal), cancelled]).finally(() => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            this.controllers.delete(controller);
+        });
+    }
+
+    private toEngineError(error: unknown): EngineError {
+        if (error instanceof EngineError) return error;
+        const detail = error instanceof Error ? error.message : String(error);
+        return new EngineError(`${this.name} failed: ${detail}`, false);
+    }
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new EngineAbortedError());
+        };
+        signal?.addEventListener('abort', onAbort);
+    });
+}
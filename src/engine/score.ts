@@ -0,0 +1,32 @@
+import { EngineScore } from './types';
+
+/**
+ * Converts a score reported for the side to move into White's point of view.
+ */
+export function toWhiteScore(score: EngineScore, fen: string): EngineScore {
+    const sideToMove = fen.split(' ')[1];
+    return sideToMove === 'b' ? { type: score.type, value: -score.value } : score;
+}
+
+/**
+ * Formats a White-relative score the usual way: `+0.35`, `-1.20`, `#3`, `#-2`, and a
+ * bare `#` once the game is over by checkmate.
+ */
+export function formatScore(score: EngineScore): string {
+    if (score.type === 'mate') return score.value === 0 ? '#' : `#${score.value}`;
+    const pawns = score.value / 100;
+    return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+}
+
+/**
+ * Share of the evaluation bar that belongs to White, between 0 and 100.
+ * Centipawns are squashed so a few pawns of advantage already fill most of the bar.
+ */
+export function whiteBarShare(score: EngineScore): number {
+    if (score.type === 'mate') {
+        if (score.value === 0) return 50;
+        return score.value > 0 ? 100 : 0;
+    }
+    const winningChance = 2 / (1 + Math.exp(-0.004 * score.value)) - 1;
+    return 50 + 50 * winningChance;
+}
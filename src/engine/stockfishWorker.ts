@@ -0,0 +1,167 @@
+import multiThreadScriptUrl from 'stockfish/src/stockfish-nnue-16.js?url';
+import multiThreadWasmUrl from 'stockfish/src/stockfish-nnue-16.wasm?url';
+import singleThreadScriptUrl from 'stockfish/src/stockfish-nnue-16-single.js?url';
+import singleThreadWasmUrl from 'stockfish/src/stockfish-nnue-16-single.wasm?url';
+import { EngineAbortedError, EngineCrashError, EngineResponseError } from './errors';
+import { AnalysisResult, EngineLine, SearchLimits, StrengthOptions } from './types';
+import { buildGoCommand, buildStrengthCommands, buildVariantCommands, parseBestMove, parseInfoLine } from './uci';
+
+type LineListener = (line: string) => void;
+
+const ENGINE_NAME = 'Local Stockfish';
+
+export interface SearchRequest extends SearchLimits, StrengthOptions {
+    multiPv: number;
+    /** Stopped early, with the lines found so far, as soon as another search is waiting. */
+    background?: boolean;
+    signal?: AbortSignal;
+    onUpdate?: (lines: EngineLine[]) => void;
+}
+
+/**
+ * Thin UCI wrapper around the bundled WASM Stockfish build running in a Web Worker.
+ *
+ * The multi-threaded build needs SharedArrayBuffer, which is only available when the
+ * page is cross-origin isolated (see the COOP/COEP headers in `vite.config.ts`);
+ * otherwise the single-threaded build is used.
+ */
+export class StockfishWorker {
+    private worker: Worker;
+    private listeners = new Set<LineListener>();
+    private ready: Promise<void>;
+    private queue: Promise<unknown> = Promise.resolve();
+    private failure: Error | null = null;
+    private searching = false;
+    private background = false;
+    /** Searches queued behind the current one. */
+    private waiting = 0;
+
+    constructor() {
+        const multiThreaded = typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated;
+        const scriptUrl = multiThreaded ? multiThreadScriptUrl : singleThreadScriptUrl;
+        const wasmUrl = multiThreaded ? multiThreadWasmUrl : singleThreadWasmUrl;
+
+        // Stockfish.js reads the location of its .wasm file from the worker URL hash.
+        this.worker = new Worker(`${scriptUrl}#${encodeURIComponent(wasmUrl)}`);
+        this.worker.onmessage = (event: MessageEvent<string>) => {
+            this.listeners.forEach((listener) => listener(event.data));
+        };
+        this.worker.onerror = (event: ErrorEvent) => {
+            this.failure = new EngineCrashError(ENGINE_NAME, event.message || 'worker error');
+            this.listeners.forEach((listener) => listener(''));
+        };
+
+        this.ready = this.initialize(multiThreaded);
+    }
+
+    /**
+     * Searches the given position. Resolves once the engine prints `bestmove`, with the
+     * last reported line for each principal variation.
+     */
+    search(fen: string, request: SearchRequest): Promise<AnalysisResult> {
+        this.waiting++;
+        if (this.background) this.stop();
+        return this.enqueue(async () => {
+            this.waiting--;
+            if (request.signal?.aborted) throw new EngineAbortedError();
+            await this.ready;
+            // Aborted while the engine was starting: nothing would ever stop the search.
+            if (request.signal?.aborted) throw new EngineAbortedError();
+
+            const lines: EngineLine[] = [];
+            let aborted = false;
+            const onAbort = () => {
+                aborted = true;
+                this.stop();
+            };
+            request.signal?.addEventListener('abort', onAbort);
+
+            try {
+                this.send(`setoption name MultiPV value ${request.multiPv}`);
+                buildStrengthCommands(request).forEach((command) => this.send(command));
+                buildVariantCommands(fen).forEach((command) => this.send(command));
+                this.send(`position fen ${fen}`);
+                this.searching = true;
+                this.background = request.background ?? false;
+                const answer = this.waitFor((line) => {
+                    const info = parseInfoLine(line);
+                    if (info) {
+                        lines[info.multiPv - 1] = info;
+                        request.onUpdate?.(lines.filter(Boolean));
+                    }
+                    return line.startsWith('bestmove');
+                }, buildGoCommand(request));
+                if (this.background && this.waiting > 0) this.stop();
+                const bestLine = await answer;
+
+                if (aborted) throw new EngineAbortedError();
+                const bestMove = parseBestMove(bestLine);
+                if (!bestMove) {
+                    throw new EngineResponseError(ENGINE_NAME, 'no legal move in this position');
+                }
+                return { bestMove, lines: lines.filter(Boolean) };
+            } finally {
+                this.searching = false;
+                this.background = false;
+                request.signal?.removeEventListener('abort', onAbort);
+            }
+        });
+    }
+
+    /**
+     * Asks the engine to finish the current search; it still answers with `bestmove`.
+     */
+    stop() {
+        if (this.searching) this.send('stop');
+    }
+
+    /**
+     * Stops the worker. Pending searches never resolve after this.
+     */
+    terminate() {
+        this.worker.terminate();
+        this.listeners.clear();
+    }
+
+    private async initialize(multiThreaded: boolean) {
+        await this.waitFor((line) => line === 'uciok', 'uci');
+        if (multiThreaded) {
+            const threads = Math.max(1, Math.min(navigator.hardwareConcurrency - 1, 4));
+            this.send(`setoption name Threads value ${threads}`);
+        }
+        await this.waitFor((line) => line === 'readyok', 'isready');
+    }
+
+    /**
+     * Searches run one at a time, since the engine only holds a single position.
+     */
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task, task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private send(command: string) {
+        this.worker.postMessage(command);
+    }
+
+    private waitFor(predicate: (line: string) => boolean, command: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const listener = (line: string) => {
+                if (this.failure) {
+                    this.listeners.delete(listener);
+                    reject(this.failure);
+                } else if (predicate(line)) {
+                    this.listeners.delete(listener);
+                    resolve(line);
+                }
+            };
+            if (this.failure) {
+                reject(this.failure);
+                return;
+            }
+            this.listeners.add(listener);
+            this.send(command);
+        });
+    }
+}
@@ -0,0 +1,119 @@
+import { EngineProvider, EngineScore, RequestOptions, SearchLimits, StrengthOptions } from './types';
+
+export interface StrengthProfile {
+    id: string;
+    label: string;
+    limits: SearchLimits;
+    strength?: StrengthOptions;
+    /**
+     * Randomness applied on top of any backend: the move is drawn from the best
+     * `candidates` lines, skipping those more than `maxLossCp` worse than the best,
+     * with better moves more likely.
+     */
+    randomness?: { candidates: number; maxLossCp: number };
+}
+
+export interface ChooseMoveOptions extends RequestOptions {
+    /** Replaces the profile's search limits, e.g. with a budget taken from the clock. */
+    limits?: SearchLimits;
+    random?: () => number;
+}
+
+export const STRENGTH_PROFILES: StrengthProfile[] = [
+    {
+        id: 'beginner',
+        label: 'Beginner',
+        limits: { depth: 4 },
+        strength: { skillLevel: 0 },
+        randomness: { candidates: 5, maxLossCp: 400 },
+    },
+    {
+        id: 'casual',
+        label: 'Casual',
+        limits: { depth: 8 },
+        strength: { skillLevel: 5 },
+        randomness: { candidates: 3, maxLossCp: 150 },
+    },
+    {
+        id: 'club',
+        label: 'Club',
+        limits: { movetime: 1000 },
+        strength: { elo: 1600 },
+        randomness: { candidates: 3, maxLossCp: 50 },
+    },
+    {
+        id: 'expert',
+        label: 'Expert',
+        limits: { movetime: 2000 },
+        strength: { elo: 2200 },
+    },
+    {
+        id: 'master',
+        label: 'Master',
+        limits: { depth: 15 },
+    },
+    {
+        id: 'maximum',
+        label: 'Maximum',
+        limits: { nodes: 3000000 },
+    },
+];
+
+export const DEFAULT_STRENGTH_PROFILE_ID = 'master';
+
+export function getStrengthProfile(id: string): StrengthProfile {
+    return STRENGTH_PROFILES.find((profile) => profile.id === id)
+        ?? STRENGTH_PROFILES.find((profile) => profile.id === DEFAULT_STRENGTH_PROFILE_ID) as StrengthProfile;
+}
+
+/**
+ * One-line summary of a profile's settings, e.g. `depth 8, skill 5, varied`.
+ */
+export function describeStrengthProfile({ limits, strength, randomness }: StrengthProfile): string {
+    const parts: string[] = [];
+    if (limits.depth) parts.push(`depth ${limits.depth}`);
+    if (limits.movetime) parts.push(`${limits.movetime / 1000}s per move`);
+    if (limits.nodes) parts.push(`${limits.nodes.toLocaleString('en-US')} nodes`);
+    if (strength?.elo) parts.push(`Elo ${strength.elo}`);
+    else if (strength?.skillLevel !== undefined) parts.push(`skill ${strength.skillLevel}`);
+    if (randomness) parts.push('varied');
+    return parts.join(', ');
+}
+
+/** Orders scores on a single scale, mates beyond any centipawn value. */
+const comparableScore = ({ type, value }: EngineScore): number => {
+    if (type === 'cp') return value;
+    return value > 0 ? 100000 - value : -100000 - value;
+};
+
+/**
+ * Picks the engine's move for a profile, in UCI notation.
+ */
+export async function chooseMove(
+    engine: EngineProvider,
+    fen: string,
+    profile: StrengthProfile,
+    { limits = profile.limits, random = Math.random, ...request }: ChooseMoveOptions = {}
+): Promise<string> {
+    const options = { ...limits, ...profile.strength, ...request };
+    if (!profile.randomness) {
+        return engine.bestMove(fen, options);
+    }
+
+    const { candidates, maxLossCp } = profile.randomness;
+    const result = await engine.analyse(fen, { ...options, multiPv: candidates });
+    if (result.lines.length < 2) return result.bestMove;
+
+    const best = comparableScore(result.lines[0].score);
+    const choices = result.lines
+        .map((line) => ({ move: line.pv[0], loss: best - comparableScore(line.score) }))
+        .filter((choice) => choice.move && choice.loss <= maxLossCp);
+    // Halve the odds every maxLossCp / 2 centipawns lost.
+    const weights = choices.map((choice) => Math.pow(0.5, choice.loss / (maxLossCp / 2)));
+    let pick = random() * weights.reduce((sum, weight) => sum + weight, 0);
+    for (let i = 0; i < choices.length; i++) {
+        pick -= weights[i];
+        if (pick < 0) return choices[i].move;
+    }
+    return result.bestMove;
+}
@@ -0,0 +1,80 @@
+/**
+ * Evaluation reported by the engine, from the point of view of the side to move.
+ * `cp` is in centipawns, `mate` is the number of moves to mate (negative when being mated).
+ */
+export interface EngineScore {
+    type: 'cp' | 'mate';
+    value: number;
+}
+
+export interface EngineLine {
+    /** 1-based rank of this line among the principal variations. */
+    multiPv: number;
+    depth: number;
+    score: EngineScore;
+    /** Principal variation in UCI notation. */
+    pv: string[];
+}
+
+export interface AnalysisResult {
+    bestMove: string;
+    lines: EngineLine[];
+}
+
+export interface SearchLimits {
+    depth?: number;
+    movetime?: number;
+    nodes?: number;
+}
+
+/**
+ * Deliberate weakening done by the engine itself. Only the bundled Stockfish honours
+ * it; other backends play at full strength within the search limits.
+ */
+export interface StrengthOptions {
+    /** Stockfish `Skill Level`, from 0 (weakest) to 20 (full strength). */
+    skillLevel?: number;
+    /** Target rating through `UCI_LimitStrength`; Stockfish accepts 1320-3190. */
+    elo?: number;
+}
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+    /** Overrides the engine's configured timeout for this request. */
+    timeoutMs?: number;
+}
+
+export type BestMoveOptions = SearchLimits & StrengthOptions & RequestOptions;
+
+export interface AnalyseOptions extends SearchLimits, StrengthOptions, RequestOptions {
+    /** Number of principal variations to report (default 1). */
+    multiPv?: number;
+    /**
+     * Gives way to other searches on an engine shared with them, such as the bundled
+     * Stockfish: stopped early, with the lines found so far, once another one is waiting.
+     */
+    background?: boolean;
+    /** Called with the latest lines whenever the engine reports progress. */
+    onUpdate?: (lines: EngineLine[]) => void;
+}
+
+/**
+ * Common interface implemented by every engine backend.
+ */
+export interface EngineProvider {
+    readonly name: string;
+    bestMove(fen: string, options: BestMoveOptions): Promise<string>;
+    analyse(fen: string, options: AnalyseOptions): Promise<AnalysisResult>;
+    /** Halts any search in progress on the backend. */
+    stop(): void;
+}
+
+export type EngineKind = 'local' | 'remote' | 'mock';
+
+export interface EngineConfig {
+    /** Time allowed for a single attempt before it is abandoned. */
+    timeoutMs: number;
+    /** Extra attempts made after a retryable failure (timeouts, network errors). */
+    retries: number;
+    retryDelayMs: number;
+}
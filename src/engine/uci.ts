@@ -0,0 +1,94 @@
+import { Square } from 'chess.js';
+import { EngineLine, SearchLimits, StrengthOptions } from './types';
+
+const MAX_SKILL_LEVEL = 20;
+
+/**
+ * Builds the UCI `go` command for the given limits. Without any limit the engine
+ * searches until it is told to stop.
+ */
+export function buildGoCommand({ depth, movetime, nodes }: SearchLimits): string {
+    const parts = ['go'];
+    if (depth) parts.push(`depth ${depth}`);
+    if (movetime) parts.push(`movetime ${movetime}`);
+    if (nodes) parts.push(`nodes ${nodes}`);
+    if (parts.length === 1) parts.push('infinite');
+    return parts.join(' ');
+}
+
+/**
+ * Builds the `setoption` commands for the requested weakening. Options left out are
+ * reset to full strength, since they persist between searches.
+ */
+export function buildStrengthCommands({ skillLevel, elo }: StrengthOptions): string[] {
+    return [
+        `setoption name Skill Level value ${skillLevel ?? MAX_SKILL_LEVEL}`,
+        `setoption name UCI_LimitStrength value ${elo ? 'true' : 'false'}`,
+        ...(elo ? [`setoption name UCI_Elo value ${elo}`] : []),
+    ];
+}
+
+/**
+ * Whether a FEN names castling rooks by their file (Shredder-FEN), as Chess960 positions
+ * do. The engine has to be in 960 mode to read them, and then writes castling as the
+ * king taking its own rook (`e1h1`).
+ */
+export function usesChess960Castling(fen: string): boolean {
+    return /[a-hA-H]/.test(fen.trim().split(/\s+/)[2] ?? '');
+}
+
+/**
+ * Builds the `setoption` command putting the engine in or out of Chess960 mode for a
+ * position; like the strength options, it persists between searches.
+ */
+export function buildVariantCommands(fen: string): string[] {
+    return [`setoption name UCI_Chess960 value ${usesChess960Castling(fen) ? 'true' : 'false'}`];
+}
+
+/**
+ * Parses an `info` line carrying a score and principal variation.
+ * Returns null for the many other `info` lines the engine prints (currmove, hashfull, ...).
+ */
+export function parseInfoLine(line: string): EngineLine | null {
+    if (!line.startsWith('info ') || !line.includes(' pv ')) return null;
+
+    const tokens = line.split(' ');
+    const depthIndex = tokens.indexOf('depth');
+    const scoreIndex = tokens.indexOf('score');
+    const multiPvIndex = tokens.indexOf('multipv');
+    const pvIndex = tokens.indexOf('pv');
+    if (depthIndex < 0 || scoreIndex < 0) return null;
+
+    const scoreType = tokens[scoreIndex + 1];
+    if (scoreType !== 'cp' && scoreType !== 'mate') return null;
+    // Bound scores are printed while the search is still settling; skip them.
+    if (tokens[scoreIndex + 3] === 'lowerbound' || tokens[scoreIndex + 3] === 'upperbound') return null;
+
+    return {
+        multiPv: multiPvIndex >= 0 ? Number(tokens[multiPvIndex + 1]) : 1,
+        depth: Number(tokens[depthIndex + 1]),
+        score: { type: scoreType, value: Number(tokens[scoreIndex + 2]) },
+        pv: tokens.slice(pvIndex + 1),
+    };
+}
+
+/**
+ * Extracts the move from a `bestmove e2e4 ponder e7e5` line, or null when there is none.
+ */
+export function parseBestMove(line: string): string | null {
+    const tokens = line.trim().split(/\s+/);
+    const index = tokens.indexOf('bestmove');
+    const move = index >= 0 ? tokens[index + 1] : tokens[0];
+    return move && /^[a-h][1-8][a-h][1-8][qrbn]?$/.test(move) ? move : null;
+}
+
+/**
+ * Converts a UCI move such as `e7e8q` into the object form accepted by `Chess.move`.
+ */
+export function uciToMove(uci: string): { from: Square; to: Square; promotion?: string } {
+    return {
+        from: uci.slice(0, 2) as Square,
+        to: uci.slice(2, 4) as Square,
+        promotion: uci.length > 4 ? uci[4] : undefined,
+    };
+}
@@ -0,0 +1,151 @@
+import { Square } from 'chess.js';
+import { loadChess } from '../game/chess960';
+
+/** How a diagram looks, whatever the position. */
+export interface DiagramStyle {
+    orientation: 'white' | 'black';
+    darkSquare: string;
+    lightSquare: string;
+    /** Draws pieces as letters rather than chess symbols. */
+    letters: boolean;
+    coordinates: boolean;
+}
+
+export interface Diagram {
+    fen: string;
+    /** Squares filled with a colour, such as the last move. */
+    highlights: { square: Square; color: string }[];
+    /** King in check, marked with a red glow. */
+    checkSquare: Square | null;
+    arrows: { from: Square; to: Square; color: string }[];
+    circles: { square: Square; color: string }[];
+}
+
+const FILES = 'abcdefgh';
+const GLYPHS: Record<string, string> = { k: '♚', q: '♛', r: '♜', b: '♝', n: '♞', p: '♟' };
+const FONT = "'DejaVu Sans', 'Segoe UI Symbol', 'Noto Sans Symbols 2', 'Arial Unicode MS', sans-serif";
+
+/** Top-left corner of `square`, in squares from the top-left of the board. */
+function cornerOf(square: Square, orientation: DiagramStyle['orientation']): [number, number] {
+    const file = FILES.indexOf(square[0]);
+    const rank = Number(square[1]) - 1;
+    return orientation === 'white' ? [file, 7 - rank] : [7 - file, rank];
+}
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+
+/**
+ * Arrow from the centre of one square to the other as a polygon, its head ending at
+ * the centre of the target square.
+ */
+function arrowPoints(from: [number, number], to: [number, number], unit: number): string {
+    const [x1, y1] = [(from[0] + 0.5) * unit, (from[1] + 0.5) * unit];
+    const [x2, y2] = [(to[0] + 0.5) * unit, (to[1] + 0.5) * unit];
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    const [dx, dy] = [(x2 - x1) / length, (y2 - y1) / length];
+    const [shaft, head, headLength] = [unit * 0.08, unit * 0.22, unit * 0.4];
+    const base = length - headLength;
+    const point = (along: number, across: number) =>
+        `${(x1 + dx * along - dy * across).toFixed(1)},${(y1 + dy * along + dx * across).toFixed(1)}`;
+    return [point(0, -shaft), point(base, -shaft), point(base, -head), point(length, 0), point(base, head), point(base, shaft), point(0, shaft)].join(' ');
+}
+
+/**
+ * The position as a standalone SVG image of `size` pixels square.
+ */
+export function renderDiagramSvg(diagram: Diagram, style: DiagramStyle, size: number): string {
+    const unit = size / 8;
+    const at = (square: Square) => cornerOf(square, style.orientation);
+    const parts: string[] = [];
+
+    for (let row = 0; row < 8; row++) {
+        for (let column = 0; column < 8; column++) {
+            const fill = (row + column) % 2 === 0 ? style.lightSquare : style.darkSquare;
+            parts.push(`<rect x="${column * unit}" y="${row * unit}" width="${unit}" height="${unit}" fill="${fill}"/>`);
+        }
+    }
+    for (const { square, color } of diagram.highlights) {
+        const [x, y] = at(square);
+        parts.push(`<rect x="${x * unit}" y="${y * unit}" width="${unit}" height="${unit}" fill="${color}"/>`);
+    }
+    if (diagram.checkSquare) {
+        const [x, y] = at(diagram.checkSquare);
+        parts.push(`<circle cx="${(x + 0.5) * unit}" cy="${(y + 0.5) * unit}" r="${unit * 0.5}" fill="url(#check)"/>`);
+    }
+    if (style.coordinates) {
+        const fontSize = unit * 0.18;
+        for (let index = 0; index < 8; index++) {
+            // Coloured like the opposite square so they show on both.
+            const file = style.orientation === 'white' ? FILES[index] : FILES[7 - index];
+            const rank = style.orientation === 'white' ? 8 - index : index + 1;
+            parts.push(`<text x="${(index + 0.96) * unit}" y="${8 * unit - fontSize * 0.3}" font-size="${fontSize}" text-anchor="end" font-family="sans-serif" fill="${index % 2 === 0 ? style.lightSquare : style.darkSquare}">${file}</text>`);
+            parts.push(`<text x="${unit * 0.04}" y="${(index + 0.04) * unit + fontSize}" font-size="${fontSize}" font-family="sans-serif" fill="${index % 2 === 0 ? style.darkSquare : style.lightSquare}">${rank}</text>`);
+        }
+    }
+    for (const piece of loadChess(diagram.fen).board().flat()) {
+        if (!piece) continue;
+        const [x, y] = at(piece.square);
+        const white = piece.color === 'w';
+        // The text variation selector keeps the pawn from turning into an emoji.
+        const text = style.letters ? piece.type.toUpperCase() : `${GLYPHS[piece.type]}\uFE0E`;
+        parts.push(`<text x="${(x + 0.5) * unit}" y="${(y + 0.5) * unit}" font-size="${unit * (style.letters ? 0.55 : 0.8)}" font-weight="700" font-family="${escapeXml(FONT)}" text-anchor="middle" dominant-baseline="central" fill="${white ? '#FFFFFF' : '#111111'}" stroke="${white ? '#000000' : '#FFFFFF'}" stroke-width="${unit * 0.02}">${text}</text>`);
+    }
+    for (const { square, color } of diagram.circles) {
+        const [x, y] = at(square);
+        parts.push(`<circle cx="${(x + 0.5) * unit}" cy="${(y + 0.5) * unit}" r="${unit * 0.45}" fill="none" stroke="${color}" stroke-width="${unit * 0.07}"/>`);
+    }
+    for (const { from, to, color } of diagram.arrows) {
+        if (from !== to) parts.push(`<polygon points="${arrowPoints(at(from), at(to), unit)}" fill="${color}"/>`);
+    }
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`,
+        '<defs><radialGradient id="check"><stop offset="0%" stop-color="rgb(255,0,0)" stop-opacity="0.8"/>',
+        '<stop offset="40%" stop-color="rgb(231,0,0)" stop-opacity="0.5"/><stop offset="100%" stop-color="rgb(231,0,0)" stop-opacity="0"/></radialGradient></defs>',
+        ...parts,
+        '</svg>',
+    ].join('');
+}
+
+/**
+ * Draws an SVG image onto a canvas of its size, for PNG export or GIF frames.
+ */
+export async function rasterizeSvg(svg: string, size: number): Promise<HTMLCanvasElement> {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    try {
+        const image = new Image(size, size);
+        image.src = url;
+        await image.decode();
+        const canvas = document.createElement('canvas');
+        canvas.width = size;
+        canvas.height = size;
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas drawing is not available');
+        context.drawImage(image, 0, 0, size, size);
+        return canvas;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+/**
+ * The position as a PNG image of `size` pixels square.
+ */
+export async function renderDiagramPng(diagram: Diagram, style: DiagramStyle, size: number): Promise<Blob> {
+    const canvas = await rasterizeSvg(renderDiagramSvg(diagram, style, size), size);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG'))), 'image/png');
+    });
+}
+
+/**
+ * Offers a file for download.
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
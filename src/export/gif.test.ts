@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { encodeGif, GifFrame } from './gif';
+
+interface DecodedGif {
+    width: number;
+    height: number;
+    palette: number[];
+    delays: number[];
+    frames: number[][];
+}
+
+/** Fills a frame from a colour per pixel. */
+function frame(width: number, height: number, colorAt: (pixel: number) => number): GifFrame {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let pixel = 0; pixel < width * height; pixel++) {
+        const rgb = colorAt(pixel);
+        data.set([(rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff, 255], pixel * 4);
+    }
+    return { width, height, data };
+}
+
+/** Reverses the LZW coding of one image's data sub-blocks into palette indices. */
+function decodeImageData(data: Uint8Array, minCodeSize: number): number[] {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const output: number[] = [];
+    let table: number[][] = [];
+    let codeSize = minCodeSize + 1;
+    let previous: number[] | null = null;
+    let bits = 0;
+    let bitCount = 0;
+    let offset = 0;
+
+    const reset = () => {
+        table = Array.from({ length: endCode + 1 }, (_, code) => [code]);
+        codeSize = minCodeSize + 1;
+        previous = null;
+    };
+    reset();
+    for (;;) {
+        while (bitCount < codeSize) {
+            bits |= data[offset++] << bitCount;
+            bitCount += 8;
+        }
+        const code = bits & ((1 << codeSize) - 1);
+        bits >>>= codeSize;
+        bitCount -= codeSize;
+        if (code === clearCode) {
+            reset();
+            continue;
+        }
+        if (code === endCode) return output;
+        const entry: number[] = code < table.length ? table[code] : [...(previous as number[]), (previous as number[])[0]];
+        output.push(...entry);
+        if (previous) table.push([...previous, entry[0]]);
+        previous = entry;
+        if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+}
+
+/** Reads back what `encodeGif` writes: one global palette and full-screen frames. */
+function decodeGif(bytes: Uint8Array): DecodedGif {
+    const word = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+    const palette = Array.from({ length: 256 }, (_, index) =>
+        (bytes[13 + index * 3] << 16) | (bytes[14 + index * 3] << 8) | bytes[15 + index * 3]);
+    const delays: number[] = [];
+    const frames: number[][] = [];
+    let offset = 13 + 256 * 3;
+
+    const subBlocks = () => {
+        const chunks: number[] = [];
+        while (bytes[offset] !== 0) {
+            chunks.push(...bytes.subarray(offset + 1, offset + 1 + bytes[offset]));
+            offset += bytes[offset] + 1;
+        }
+        offset++;
+        return Uint8Array.from(chunks);
+    };
+
+    while (bytes[offset] !== 0x3b) {
+        if (bytes[offset] === 0x21) {
+            if (bytes[offset + 1] === 0xf9) delays.push(word(offset + 4));
+            offset += 2;
+            subBlocks();
+        } else {
+            offset += 10;
+            const minCodeSize = bytes[offset++];
+            frames.push(decodeImageData(subBlocks(), minCodeSize));
+        }
+    }
+    return { width: word(6), height: word(8), palette, delays, frames };
+}
+
+describe('encodeGif', () => {
+    it('writes a looping GIF89a with a palette ordered by use', () => {
+        const bytes = encodeGif([frame(4, 2, (pixel) => (pixel === 0 ? 0xff0000 : 0x00ff00))], 500);
+        const gif = decodeGif(bytes);
+
+        expect(new TextDecoder().decode(bytes.subarray(0, 6))).toBe('GIF89a');
+        expect(new TextDecoder().decode(bytes.subarray(13 + 256 * 3 + 3, 13 + 256 * 3 + 14))).toBe('NETSCAPE2.0');
+        expect([gif.width, gif.height]).toEqual([4, 2]);
+        expect(gif.palette.slice(0, 2)).toEqual([0x00ff00, 0xff0000]);
+        expect(gif.delays).toEqual([50]);
+        expect(gif.frames).toEqual([[1, 0, 0, 0, 0, 0, 0, 0]]);
+        expect(bytes[bytes.length - 1]).toBe(0x3b);
+    });
+
+    it('compresses each frame so that it decodes back to its pixels', () => {
+        const colors = [0x000000, 0xffffff, 0x808080];
+        const frames = [
+            frame(8, 8, (pixel) => colors[(pixel + (pixel >> 3)) % 2]),
+            frame(8, 8, (pixel) => colors[pixel % 3]),
+        ];
+        const gif = decodeGif(encodeGif(frames, 1));
+
+        expect(gif.delays).toEqual([1, 1]);
+        gif.frames.forEach((indices, index) => {
+            const expected = Array.from({ length: 64 }, (_, pixel) => {
+                const rgb = (frames[index].data[pixel * 4] << 16) | (frames[index].data[pixel * 4 + 1] << 8) | frames[index].data[pixel * 4 + 2];
+                return gif.palette.indexOf(rgb);
+            });
+            expect(indices).toEqual(expected);
+        });
+    });
+
+    it('starts a new code table once the old one is full', () => {
+        // A pseudo-random frame has few repeats, so the 4096 codes run out many times over.
+        let seed = 1;
+        const noise = Array.from({ length: 200 * 200 }, () => {
+            seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+            return (seed >> 16) % 200;
+        });
+        const gif = decodeGif(encodeGif([frame(200, 200, (pixel) => noise[pixel] * 0x010101)], 100));
+
+        expect(gif.frames[0].map((index) => gif.palette[index] & 0xff)).toEqual(noise);
+    });
+
+    it('refuses to encode no frames', () => {
+        expect(() => encodeGif([], 100)).toThrow('A GIF needs at least one frame');
+    });
+});
@@ -0,0 +1,200 @@
+/** Pixels of one frame, as in `ImageData`: RGBA, row by row. */
+export interface GifFrame {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+const MAX_COLORS = 256;
+const MIN_CODE_SIZE = 8;
+const MAX_CODES = 4096;
+const BLOCK_SIZE = 255;
+
+/** Growable byte buffer. */
+class ByteWriter {
+    private bytes = new Uint8Array(1 << 16);
+    length = 0;
+
+    byte(value: number) {
+        if (this.length === this.bytes.length) {
+            const grown = new Uint8Array(this.bytes.length * 2);
+            grown.set(this.bytes);
+            this.bytes = grown;
+        }
+        this.bytes[this.length++] = value;
+    }
+
+    word(value: number) {
+        this.byte(value & 0xff);
+        this.byte((value >> 8) & 0xff);
+    }
+
+    text(value: string) {
+        for (const char of value) this.byte(char.charCodeAt(0));
+    }
+
+    result(): Uint8Array {
+        return this.bytes.slice(0, this.length);
+    }
+}
+
+const rgbAt = (data: Uint8ClampedArray, offset: number) => (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2];
+
+/**
+ * The 256 colours used most across the frames. Board diagrams are mostly flat colours,
+ * so these cover nearly every pixel; the rest are matched to the nearest of them.
+ */
+function buildPalette(frames: GifFrame[]): number[] {
+    const counts = new Map<number, number>();
+    for (const { data } of frames) {
+        for (let offset = 0; offset < data.length; offset += 4) {
+            const rgb = rgbAt(data, offset);
+            counts.set(rgb, (counts.get(rgb) ?? 0) + 1);
+        }
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_COLORS).map(([rgb]) => rgb);
+}
+
+function nearestIndex(palette: number[], rgb: number): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    palette.forEach((candidate, index) => {
+        const dr = ((candidate >> 16) & 0xff) - ((rgb >> 16) & 0xff);
+        const dg = ((candidate >> 8) & 0xff) - ((rgb >> 8) & 0xff);
+        const db = (candidate & 0xff) - (rgb & 0xff);
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+            best = index;
+            bestDistance = distance;
+        }
+    });
+    return best;
+}
+
+/**
+ * LZW-compresses palette indices as GIF image data: variable-width codes packed from
+ * the lowest bit, in sub-blocks of up to 255 bytes.
+ */
+function writeImageData(out: ByteWriter, indices: Uint8Array) {
+    const clearCode = 1 << MIN_CODE_SIZE;
+    const endCode = clearCode + 1;
+    const packed = new ByteWriter();
+    let bits = 0;
+    let bitCount = 0;
+    let codeSize = MIN_CODE_SIZE + 1;
+    let nextCode = endCode + 1;
+    let table = new Map<number, number>();
+
+    const emit = (code: number) => {
+        bits |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            packed.byte(bits & 0xff);
+            bits >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const index = indices[i];
+        const key = (prefix << 8) | index;
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        emit(prefix);
+        if (nextCode === MAX_CODES) {
+            emit(clearCode);
+            table = new Map();
+            codeSize = MIN_CODE_SIZE + 1;
+            nextCode = endCode + 1;
+        } else {
+            // The decoder widens its codes one entry behind the encoder.
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = index;
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) packed.byte(bits & 0xff);
+
+    const data = packed.result();
+    out.byte(MIN_CODE_SIZE);
+    for (let start = 0; start < data.length; start += BLOCK_SIZE) {
+        const block = data.subarray(start, start + BLOCK_SIZE);
+        out.byte(block.length);
+        block.forEach((value) => out.byte(value));
+    }
+    out.byte(0);
+}
+
+/**
+ * Encodes frames of the same size as an animated GIF that loops forever, each frame
+ * shown for `delayMs` (rounded to the format's hundredths of a second).
+ */
+export function encodeGif(frames: GifFrame[], delayMs: number): Uint8Array {
+    if (frames.length === 0) throw new Error('A GIF needs at least one frame');
+    const { width, height } = frames[0];
+    const palette = buildPalette(frames);
+    const out = new ByteWriter();
+
+    out.text('GIF89a');
+    out.word(width);
+    out.word(height);
+    // Global colour table of 256 entries, 8 bits per primary.
+    out.byte(0xf7);
+    out.byte(0);
+    out.byte(0);
+    for (let index = 0; index < MAX_COLORS; index++) {
+        const rgb = palette[index] ?? 0;
+        out.byte((rgb >> 16) & 0xff);
+        out.byte((rgb >> 8) & 0xff);
+        out.byte(rgb & 0xff);
+    }
+    // Netscape extension: loop forever.
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.text('NETSCAPE2.0');
+    out.byte(3);
+    out.byte(1);
+    out.word(0);
+    out.byte(0);
+
+    const lookup = new Map(palette.map((rgb, index) => [rgb, index]));
+    const delay = Math.max(Math.round(delayMs / 10), 1);
+    for (const { data } of frames) {
+        const indices = new Uint8Array(width * height);
+        for (let pixel = 0; pixel < indices.length; pixel++) {
+            const rgb = rgbAt(data, pixel * 4);
+            let index = lookup.get(rgb);
+            if (index === undefined) {
+                index = nearestIndex(palette, rgb);
+                lookup.set(rgb, index);
+            }
+            indices[pixel] = index;
+        }
+        // Graphic control extension: the frame's delay.
+        out.byte(0x21);
+        out.byte(0xf9);
+        out.byte(4);
+        out.byte(0);
+        out.word(delay);
+        out.byte(0);
+        out.byte(0);
+        // Image descriptor: the whole screen, no local colour table.
+        out.byte(0x2c);
+        out.word(0);
+        out.word(0);
+        out.word(width);
+        out.word(height);
+        out.byte(0);
+        writeImageData(out, indices);
+    }
+    out.byte(0x3b);
+    return out.result();
+}
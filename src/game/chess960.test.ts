@@ -0,0 +1,71 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import {
+    chess960Number,
+    chess960StartFen,
+    fromXFen,
+    isChess960Game,
+    legalMoves,
+    moveTargets,
+    playMove,
+    playSan,
+    replayGame,
+    STANDARD_POSITION_NUMBER,
+    toXFen
+} from './chess960';
+
+/** Kings on f1 and f8 between rooks on the a and h files. */
+const CASTLING = 'r4k1r/pppppppp/8/8/8/8/PPPPPPPP/R4K1R w HAha - 0 1';
+
+describe('start positions', () => {
+    it('numbers the standard position 518', () => {
+        expect(chess960StartFen(STANDARD_POSITION_NUMBER)).toBe(DEFAULT_POSITION);
+        expect(chess960Number(DEFAULT_POSITION)).toBe(STANDARD_POSITION_NUMBER);
+        expect(isChess960Game(DEFAULT_POSITION)).toBe(false);
+    });
+
+    it('builds the other positions with castling rights naming the rook files', () => {
+        const fen = chess960StartFen(0);
+
+        expect(fen).toBe('bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w HFhf - 0 1');
+        expect(chess960Number(fen)).toBe(0);
+        expect(isChess960Game(fen)).toBe(true);
+    });
+
+    it('has no number for positions after the start', () => {
+        expect(chess960Number(playSan(DEFAULT_POSITION, 'e4').after)).toBeNull();
+    });
+});
+
+describe('X-FEN', () => {
+    it('writes outermost rooks as KQkq and reads them back as files', () => {
+        const fen = chess960StartFen(0);
+
+        expect(toXFen(fen)).toBe('bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1');
+        expect(fromXFen(toXFen(fen))).toBe(fen);
+        expect(toXFen(CASTLING)).toBe('r4k1r/pppppppp/8/8/8/8/PPPPPPPP/R4K1R w KQkq - 0 1');
+    });
+});
+
+describe('castling', () => {
+    it('castles on both sides, the king moving onto its rook', () => {
+        const castles = legalMoves(CASTLING).filter((move) => move.castling);
+
+        expect(castles.map((move) => [move.san, move.uci])).toEqual([['O-O', 'f1h1'], ['O-O-O', 'f1a1']]);
+        expect(castles[0].after).toBe('r4k1r/pppppppp/8/8/8/8/PPPPPPPP/R4RK1 b ha - 1 1');
+        expect(castles[1].after).toBe('r4k1r/pppppppp/8/8/8/8/PPPPPPPP/2KR3R b ha - 1 1');
+        expect(moveTargets(CASTLING, 'f1')).toEqual(['g1', 'e1', 'h1', 'a1', 'c1']);
+    });
+
+    it('tells a king step from castling', () => {
+        expect(playMove(CASTLING, { from: 'f1', to: 'g1' }).san).toBe('Kg1');
+        expect(playMove(CASTLING, { from: 'f1', to: 'h1' }).san).toBe('O-O');
+    });
+
+    it('replays a game with castling for both sides', () => {
+        const game = replayGame(CASTLING, ['O-O', 'O-O']);
+
+        expect(game.fen()).toBe('r4rk1/pppppppp/8/8/8/8/PPPPPPPP/R4RK1 w - - 2 2');
+        expect(() => playSan(CASTLING, 'O-O-O-O')).toThrow();
+    });
+});
@@ -0,0 +1,365 @@
+import { Chess, Color, PieceSymbol, Square } from 'chess.js';
+import { usesChess960Castling } from '../engine';
+
+/**
+ * Chess960 (Fischer Random) on top of chess.js, which only knows castling with the king
+ * on e1/e8 and the rooks in the corners.
+ *
+ * Positions are kept as FEN whose castling field names the rook of each right: `K`/`Q`
+ * (`k`/`q`) when king and rook stand on their classical squares, so standard games read
+ * as usual, and the rook's file otherwise, as in Shredder-FEN (`HBhb`). chess.js is only
+ * ever shown the classical rights, and the castling it cannot play is done here.
+ */
+
+export type CastlingSide = 'k' | 'q';
+
+/** Number of the standard starting position in the Chess960 numbering. */
+export const STANDARD_POSITION_NUMBER = 518;
+export const CHESS960_POSITIONS = 960;
+
+export interface LegalMove {
+    from: Square;
+    /** Destination; the castling rook's square for Chess960 castling. */
+    to: Square;
+    piece: PieceSymbol;
+    captured?: PieceSymbol;
+    promotion?: PieceSymbol;
+    san: string;
+    /** The move as the engine writes it for this position (king takes rook when castling in 960 mode). */
+    uci: string;
+    /** Position after the move. */
+    after: string;
+    castling?: { side: CastlingSide; rook: Square; kingTo: Square };
+}
+
+interface CastlingRight {
+    color: Color;
+    side: CastlingSide;
+    rookFile: string;
+}
+
+const FILES = 'abcdefgh';
+const BACK_RANK: Record<Color, string> = { w: '1', b: '8' };
+/** Where the knights go among the five squares left after the bishops and queen. */
+const KNIGHT_PLACEMENTS = [[0, 1], [0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]];
+
+const fileIndex = (square: string) => FILES.indexOf(square[0]);
+const fieldsOf = (fen: string) => fen.trim().split(/\s+/);
+const withCastling = (fen: string, castling: string) => {
+    const fields = fieldsOf(fen);
+    fields[2] = castling;
+    return fields.join(' ');
+};
+
+/**
+ * Back rank of a start position by its number (0-959) in the usual Scharnagl numbering,
+ * e.g. 518 is `rnbqkbnr`.
+ */
+function backRank(number: number): PieceSymbol[] {
+    const rank: (PieceSymbol | null)[] = Array(8).fill(null);
+    let rest = number;
+    rank[(rest % 4) * 2 + 1] = 'b';
+    rest = Math.floor(rest / 4);
+    rank[(rest % 4) * 2] = 'b';
+    rest = Math.floor(rest / 4);
+    const place = (piece: PieceSymbol, nth: number) => {
+        const empty = rank.map((square, index) => (square ? -1 : index)).filter((index) => index >= 0);
+        rank[empty[nth]] = piece;
+    };
+    place('q', rest % 6);
+    const [first, second] = KNIGHT_PLACEMENTS[Math.floor(rest / 6)];
+    // Placing the first knight shifts the free squares, hence `second - 1`.
+    place('n', first);
+    place('n', second - 1);
+    place('r', 0);
+    place('k', 0);
+    place('r', 0);
+    return rank as PieceSymbol[];
+}
+
+/**
+ * FEN of a Chess960 start position by its number (0-959).
+ */
+export function chess960StartFen(number: number): string {
+    if (!Number.isInteger(number) || number < 0 || number >= CHESS960_POSITIONS) {
+        throw new Error(`Chess960 positions are numbered 0 to ${CHESS960_POSITIONS - 1}`);
+    }
+    const black = backRank(number).join('');
+    const placement = `${black}/pppppppp/8/8/8/8/PPPPPPPP/${black.toUpperCase()}`;
+    const rooks = [...black].flatMap((piece, index) => (piece === 'r' ? [FILES[index]] : []));
+    const rights = (['w', 'b'] as Color[]).flatMap((color) => rooks.map((rookFile, index): CastlingRight => ({
+        color,
+        side: index === 0 ? 'q' : 'k',
+        rookFile,
+    })));
+    const fen = `${placement} w - - 0 1`;
+    return withCastling(fen, formatCastling(rights, loadBoard(fen)));
+}
+
+export function randomChess960Number(): number {
+    return Math.floor(Math.random() * CHESS960_POSITIONS);
+}
+
+/**
+ * Number of the Chess960 start position `fen` shows, or null when it is not one.
+ */
+export function chess960Number(fen: string): number | null {
+    const [black, ...ranks] = fieldsOf(fen)[0].split('/');
+    if (ranks.join('/') !== `pppppppp/8/8/8/8/PPPPPPPP/${black.toUpperCase()}`) return null;
+    for (let number = 0; number < CHESS960_POSITIONS; number++) {
+        if (backRank(number).join('') === black) return number;
+    }
+    return null;
+}
+
+/**
+ * Whether a game from `startFen` is played under Chess960 castling rules: it starts from
+ * a 960 position other than the standard one, or already has 960 castling rights.
+ */
+export function isChess960Game(startFen: string): boolean {
+    if (usesChess960Castling(startFen)) return true;
+    const number = chess960Number(startFen);
+    return number !== null && number !== STANDARD_POSITION_NUMBER;
+}
+
+/** The position without castling rights, for reading the pieces off. */
+function loadBoard(fen: string): Chess {
+    return new Chess(withCastling(fen, '-'));
+}
+
+const kingFile = (board: Chess, color: Color): string | null => {
+    const file = [...FILES].find((candidate) => {
+        const piece = board.get(`${candidate}${BACK_RANK[color]}` as Square);
+        return piece?.type === 'k' && piece.color === color;
+    });
+    return file ?? null;
+};
+
+const isRook = (board: Chess, color: Color, file: string) => {
+    const piece = board.get(`${file}${BACK_RANK[color]}` as Square);
+    return piece?.type === 'r' && piece.color === color;
+};
+
+/**
+ * Reads the castling rights of a FEN in any of the usual forms: classical `KQkq`,
+ * X-FEN, where `K`/`Q` stand for the outermost rook, or Shredder-FEN file letters.
+ * Rights without their king and rook on the back rank are dropped.
+ */
+function castlingRights(fen: string, board: Chess = loadBoard(fen)): CastlingRight[] {
+    const rights: CastlingRight[] = [];
+    for (const letter of fieldsOf(fen)[2] ?? '-') {
+        const color: Color = letter === letter.toUpperCase() ? 'w' : 'b';
+        const king = kingFile(board, color);
+        if (!king || letter === '-') continue;
+        const kingIndex = FILES.indexOf(king);
+        const lower = letter.toLowerCase();
+        let rookFile: string | undefined;
+        if (lower === 'k') {
+            rookFile = [...FILES].reverse().find((file) => FILES.indexOf(file) > kingIndex && isRook(board, color, file));
+        } else if (lower === 'q') {
+            rookFile = [...FILES].find((file) => FILES.indexOf(file) < kingIndex && isRook(board, color, file));
+        } else if (FILES.includes(lower) && isRook(board, color, lower)) {
+            rookFile = lower;
+        }
+        if (!rookFile || rights.some((right) => right.color === color && right.rookFile === rookFile)) continue;
+        rights.push({ color, side: FILES.indexOf(rookFile) > kingIndex ? 'k' : 'q', rookFile });
+    }
+    return rights;
+}
+
+/** Rights chess.js plays correctly by itself: king on the e-file and rook in the corner. */
+const isClassical = (right: CastlingRight, board: Chess) =>
+    kingFile(board, right.color) === 'e' && right.rookFile === (right.side === 'k' ? 'h' : 'a');
+
+/**
+ * Writes castling rights, by default in the form positions are kept in (see above).
+ * X-FEN uses `K`/`Q` for the outermost rook and the file otherwise.
+ */
+function formatCastling(rights: CastlingRight[], board: Chess, style: 'internal' | 'x-fen' = 'internal'): string {
+    const letters = [...rights]
+        .sort((a, b) => (a.color === b.color ? b.rookFile.localeCompare(a.rookFile) : a.color === 'w' ? -1 : 1))
+        .map((right) => {
+            const outermost = right.side === 'k'
+                ? ![...FILES].some((file) => file > right.rookFile && isRook(board, right.color, file))
+                : ![...FILES].some((file) => file < right.rookFile && isRook(board, right.color, file));
+            const named = style === 'internal' ? isClassical(right, board) : outermost;
+            const letter = named ? right.side : right.rookFile;
+            return right.color === 'w' ? letter.toUpperCase() : letter;
+        });
+    return letters.join('') || '-';
+}
+
+/**
+ * The position with its castling rights written as X-FEN, as PGN expects for Chess960.
+ */
+export function toXFen(fen: string): string {
+    const board = loadBoard(fen);
+    return withCastling(fen, formatCastling(castlingRights(fen, board), board, 'x-fen'));
+}
+
+/**
+ * The position with its castling rights, given in any of the usual forms, rewritten in
+ * the form positions are kept in, e.g. for a Chess960 FEN read from a PGN.
+ */
+export function fromXFen(fen: string): string {
+    const board = loadBoard(fen);
+    return withCastling(fen, formatCastling(castlingRights(fen, board), board));
+}
+
+/**
+ * Loads a position into chess.js, keeping only the castling rights it can play.
+ * Everything but Chess960 castling can be asked of the result.
+ */
+export function loadChess(fen: string): Chess {
+    const board = loadBoard(fen);
+    const rights = castlingRights(fen, board).filter((right) => isClassical(right, board));
+    return new Chess(withCastling(fen, formatCastling(rights, board)));
+}
+
+const rankSquares = (from: string, to: string, rank: string): Square[] => {
+    const [low, high] = [fileIndex(from), fileIndex(to)].sort((a, b) => a - b);
+    return [...FILES.slice(low, high + 1)].map((file) => `${file}${rank}` as Square);
+};
+
+/** Rights left after a move from `from` to `to` by `color`'s `piece`. */
+function remainingRights(rights: CastlingRight[], color: Color, piece: PieceSymbol, from: Square, to: Square) {
+    return rights.filter((right) => {
+        const rookSquare = `${right.rookFile}${BACK_RANK[right.color]}`;
+        if (right.color === color && piece === 'k') return false;
+        return rookSquare !== from && rookSquare !== to;
+    });
+}
+
+/** Chess960 castling for a right chess.js does not know, or null when it is not legal now. */
+function castle(fen: string, game: Chess, board: Chess, rights: CastlingRight[], right: CastlingRight): LegalMove | null {
+    const { color, side } = right;
+    const rank = BACK_RANK[color];
+    const king = `${kingFile(board, color)}${rank}` as Square;
+    const rook = `${right.rookFile}${rank}` as Square;
+    const kingTo = `${side === 'k' ? 'g' : 'c'}${rank}` as Square;
+    const rookTo = `${side === 'k' ? 'f' : 'd'}${rank}` as Square;
+
+    const span = rankSquares([king, rook, kingTo, rookTo].sort()[0], [king, rook, kingTo, rookTo].sort()[3], rank);
+    if (span.some((square) => square !== king && square !== rook && board.get(square))) return null;
+    if (game.inCheck()) return null;
+    const empty = loadBoard(fen);
+    empty.remove(king);
+    empty.remove(rook);
+    const opponent: Color = color === 'w' ? 'b' : 'w';
+    if (rankSquares(king, kingTo, rank).some((square) => empty.isAttacked(square, opponent))) return null;
+
+    empty.put({ type: 'k', color }, kingTo);
+    empty.put({ type: 'r', color }, rookTo);
+    const [, , , , halfMoves, fullMoves] = fieldsOf(fen);
+    const castled = [
+        fieldsOf(empty.fen())[0],
+        opponent,
+        '-',
+        '-',
+        String(Number(halfMoves) + 1),
+        String(Number(fullMoves) + (color === 'b' ? 1 : 0)),
+    ].join(' ');
+    const after = withCastling(castled, formatCastling(remainingRights(rights, color, 'k', king, rook), loadBoard(castled)));
+    const reply = loadChess(after);
+    const san = `${side === 'k' ? 'O-O' : 'O-O-O'}${reply.isCheckmate() ? '#' : reply.inCheck() ? '+' : ''}`;
+    return { from: king, to: rook, piece: 'k', san, uci: `${king}${rook}`, after, castling: { side, rook, kingTo } };
+}
+
+/**
+ * Every legal move in the position, Chess960 castling included.
+ */
+export function legalMoves(fen: string): LegalMove[] {
+    const board = loadBoard(fen);
+    const rights = castlingRights(fen, board);
+    const game = loadChess(fen);
+    const chess960 = usesChess960Castling(fen);
+    // chess.js keeps classical rights up to date itself; only 960 ones need redoing.
+    const hasOwnRights = rights.some((right) => !isClassical(right, board));
+    const moves: LegalMove[] = game.moves({ verbose: true }).map((move) => {
+        const side: CastlingSide | null = move.isKingsideCastle() ? 'k' : move.isQueensideCastle() ? 'q' : null;
+        const rook = side ? `${side === 'k' ? 'h' : 'a'}${move.from[1]}` as Square : null;
+        return {
+            from: move.from,
+            to: move.to,
+            piece: move.piece,
+            captured: move.captured,
+            promotion: move.promotion,
+            san: move.san,
+            uci: chess960 && rook ? `${move.from}${rook}` : move.lan,
+            after: hasOwnRights
+                ? withCastling(move.after, formatCastling(remainingRights(rights, move.color, move.piece, move.from, move.to), loadBoard(move.after)))
+                : move.after,
+            ...(side && rook ? { castling: { side, rook, kingTo: move.to } } : {}),
+        };
+    });
+    rights
+        .filter((right) => right.color === game.turn() && !isClassical(right, board))
+        .forEach((right) => {
+            const move = castle(fen, game, board, rights, right);
+            if (move) moves.push(move);
+        });
+    return moves;
+}
+
+/**
+ * Squares the piece on `from` can be moved to by hand. Castling is offered both by
+ * moving the king onto its rook and, where that is not also an ordinary king move,
+ * onto the square it castles to.
+ */
+export function moveTargets(fen: string, from: Square): Square[] {
+    const moves = legalMoves(fen).filter((move) => move.from === from);
+    const targets = moves.flatMap((move) => (move.castling ? [move.castling.rook, move.castling.kingTo] : [move.to]));
+    return [...new Set(targets)].filter((square) => square !== from);
+}
+
+/**
+ * Plays a move given by its squares, as typed, clicked or sent by the engine. Castling
+ * may be given as the king moving onto its rook or to the square it castles to.
+ *
+ * @throws Error when the move is not legal.
+ */
+export function playMove(fen: string, { from, to, promotion }: { from: Square; to: Square; promotion?: string }): LegalMove {
+    const moves = legalMoves(fen).filter((move) => move.from === from);
+    const move = moves.find((candidate) => candidate.to === to && !candidate.castling && candidate.promotion === promotion)
+        ?? moves.find((candidate) => candidate.castling?.rook === to)
+        ?? moves.find((candidate) => candidate.castling?.kingTo === to && !moves.some((other) => other.to === to && !other.castling));
+    if (!move) throw new Error(`Illegal move: ${from}${to}${promotion ?? ''}`);
+    return move;
+}
+
+/**
+ * Plays a move given in SAN.
+ *
+ * @throws Error when the move is not legal.
+ */
+export function playSan(fen: string, san: string): LegalMove {
+    const castling = san.match(/^O-O(-O)?[+#]?$/);
+    if (castling) {
+        const side: CastlingSide = castling[1] ? 'q' : 'k';
+        const move = legalMoves(fen).find((candidate) => candidate.castling?.side === side);
+        if (!move) throw new Error(`Illegal move: ${san}`);
+        return move;
+    }
+    const { from, to, promotion } = loadChess(fen).move(san);
+    return playMove(fen, { from, to, promotion });
+}
+
+/**
+ * Replays moves into a chess.js game, so its history knows about repetitions. Castling
+ * chess.js cannot play is done by loading the position after it; castling cannot be
+ * undone, so no earlier position could repeat anyway.
+ */
+export function replayGame(startFen: string, moves: string[]): Chess {
+    const game = loadChess(startFen);
+    let fen = startFen;
+    moves.forEach((san) => {
+        const move = playSan(fen, san);
+        if (move.castling && !game.moves().includes(move.san)) {
+            game.load(loadChess(move.after).fen());
+        } else {
+            game.move(move.san);
+        }
+        fen = move.after;
+    });
+    return game;
+}
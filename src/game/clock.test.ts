@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { canCheckmate, createClock, formatClock, pressClock, startClock, stopClock, thinkingTime, timeLeft } from './clock';
+
+const FIVE_PLUS_TWO = { baseMs: 300000, incrementMs: 2000, delayMs: 0 };
+
+describe('clock', () => {
+    it('runs only the side to move', () => {
+        const clock = startClock(createClock(FIVE_PLUS_TWO), 'w', 1000);
+
+        expect(timeLeft(clock, 'w', 11000)).toBe(290000);
+        expect(timeLeft(clock, 'b', 11000)).toBe(300000);
+    });
+
+    it('charges the mover, adds the increment and starts the opponent on a press', () => {
+        const pressed = pressClock(startClock(createClock(FIVE_PLUS_TWO), 'w', 0), 10000);
+
+        expect(pressed.remaining).toEqual({ w: 292000, b: 300000 });
+        expect(pressed.running).toBe('b');
+        expect(pressed.startedAt).toBe(10000);
+        expect(pressClock(createClock(FIVE_PLUS_TWO), 10000)).toEqual(createClock(FIVE_PLUS_TWO));
+    });
+
+    it('does not count the delay at the start of each move', () => {
+        const clock = startClock(createClock({ baseMs: 60000, incrementMs: 0, delayMs: 3000 }), 'w', 0);
+
+        expect(timeLeft(clock, 'w', 2000)).toBe(60000);
+        expect(timeLeft(clock, 'w', 5000)).toBe(58000);
+    });
+
+    it('flags a side whose time runs out, without an increment', () => {
+        const clock = startClock(createClock({ baseMs: 1000, incrementMs: 500, delayMs: 0 }), 'w', 0);
+
+        expect(stopClock(clock, 2000)).toMatchObject({ remaining: { w: 0, b: 1000 }, running: null, flagged: 'w' });
+        expect(pressClock(clock, 2000)).toMatchObject({ remaining: { w: 0, b: 1000 }, running: null, flagged: 'w' });
+        expect(startClock(stopClock(clock, 2000), 'b', 2000).running).toBeNull();
+    });
+
+    it('budgets thinking time from the time left and the increment', () => {
+        const clock = createClock({ baseMs: 60000, incrementMs: 2000, delayMs: 0 });
+
+        expect(thinkingTime(clock, 'w', 0)).toBe(3500);
+        expect(thinkingTime({ ...clock, remaining: { w: 200, b: 60000 } }, 'w', 0)).toBe(100);
+    });
+
+    it('knows which material can still mate', () => {
+        expect(canCheckmate('8/8/8/8/8/8/8/KR5k w - - 0 1', 'w')).toBe(true);
+        expect(canCheckmate('8/8/8/8/8/8/8/KN5k w - - 0 1', 'w')).toBe(false);
+        expect(canCheckmate('8/8/8/8/8/8/8/KB5k w - - 0 1', 'w')).toBe(false);
+        expect(canCheckmate('8/8/8/8/8/8/8/K6k w - - 0 1', 'w')).toBe(false);
+    });
+
+    it('formats readings with tenths in the last 20 seconds', () => {
+        expect(formatClock(3900000)).toBe('1:05:00');
+        expect(formatClock(299000)).toBe('4:59');
+        expect(formatClock(9400)).toBe('0:09.4');
+    });
+});
@@ -0,0 +1,136 @@
+import { Color } from 'chess.js';
+import { loadChess } from './chess960';
+
+export interface TimeControl {
+    /** Starting time per side. */
+    baseMs: number;
+    /** Added to the mover's clock after every move (Fischer increment). */
+    incrementMs: number;
+    /** Grace period at the start of every move before the clock runs (simple delay). */
+    delayMs: number;
+}
+
+export interface TimeControlPreset {
+    id: string;
+    label: string;
+    timeControl: TimeControl;
+}
+
+export interface ClockState {
+    timeControl: TimeControl;
+    /** Time left per side, as of the moment the running side's turn started. */
+    remaining: Record<Color, number>;
+    /** Side whose clock is running, or null when the clocks are stopped. */
+    running: Color | null;
+    /** Timestamp (ms) at which the running side's clock was started. */
+    startedAt: number;
+    /** Side that ran out of time, if any. */
+    flagged: Color | null;
+}
+
+const MINUTE = 60000;
+const SECOND = 1000;
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+    { id: 'bullet-1-0', label: 'Bullet 1+0', timeControl: { baseMs: MINUTE, incrementMs: 0, delayMs: 0 } },
+    { id: 'blitz-3-2', label: 'Blitz 3+2', timeControl: { baseMs: 3 * MINUTE, incrementMs: 2 * SECOND, delayMs: 0 } },
+    { id: 'blitz-5-0', label: 'Blitz 5+0', timeControl: { baseMs: 5 * MINUTE, incrementMs: 0, delayMs: 0 } },
+    { id: 'blitz-5-d3', label: 'Blitz 5 delay 3', timeControl: { baseMs: 5 * MINUTE, incrementMs: 0, delayMs: 3 * SECOND } },
+    { id: 'rapid-10-5', label: 'Rapid 10+5', timeControl: { baseMs: 10 * MINUTE, incrementMs: 5 * SECOND, delayMs: 0 } },
+    { id: 'rapid-15-10', label: 'Rapid 15+10', timeControl: { baseMs: 15 * MINUTE, incrementMs: 10 * SECOND, delayMs: 0 } },
+    { id: 'classical-30-0', label: 'Classical 30+0', timeControl: { baseMs: 30 * MINUTE, incrementMs: 0, delayMs: 0 } },
+];
+
+/** Moves the engine assumes are still to be played when budgeting its time. */
+const EXPECTED_MOVES_LEFT = 30;
+const MIN_THINKING_MS = 50;
+
+export function createClock(timeControl: TimeControl): ClockState {
+    return {
+        timeControl,
+        remaining: { w: timeControl.baseMs, b: timeControl.baseMs },
+        running: null,
+        startedAt: 0,
+        flagged: null,
+    };
+}
+
+/**
+ * Time left for `color` at `now`, counting the running side's elapsed time after its delay.
+ */
+export function timeLeft(clock: ClockState, color: Color, now: number): number {
+    if (clock.running !== color) return clock.remaining[color];
+    const elapsed = Math.max(0, now - clock.startedAt - clock.timeControl.delayMs);
+    return Math.max(0, clock.remaining[color] - elapsed);
+}
+
+export function startClock(clock: ClockState, color: Color, now: number): ClockState {
+    if (clock.flagged || clock.running === color) return clock;
+    return { ...stopClock(clock, now), running: color, startedAt: now };
+}
+
+/**
+ * Stops the running clock, charging its side the time used and noting a flag fall.
+ */
+export function stopClock(clock: ClockState, now: number): ClockState {
+    const { running } = clock;
+    if (!running) return clock;
+    const left = timeLeft(clock, running, now);
+    return {
+        ...clock,
+        remaining: { ...clock.remaining, [running]: left },
+        running: null,
+        flagged: left <= 0 ? running : clock.flagged,
+    };
+}
+
+/**
+ * Ends the running side's move: it is charged its time, gets the increment, and the
+ * opponent's clock starts.
+ */
+export function pressClock(clock: ClockState, now: number): ClockState {
+    const mover = clock.running;
+    if (!mover) return clock;
+    const stopped = stopClock(clock, now);
+    if (stopped.flagged) return stopped;
+    const next: ClockState = {
+        ...stopped,
+        remaining: { ...stopped.remaining, [mover]: stopped.remaining[mover] + clock.timeControl.incrementMs },
+    };
+    return startClock(next, mover === 'w' ? 'b' : 'w', now);
+}
+
+/**
+ * Thinking time for `color`'s next move: an even share of its remaining time plus most
+ * of the increment and all of the delay, never more than half of what is left.
+ */
+export function thinkingTime(clock: ClockState, color: Color, now: number): number {
+    const left = timeLeft(clock, color, now);
+    const { incrementMs, delayMs } = clock.timeControl;
+    const budget = left / EXPECTED_MOVES_LEFT + incrementMs * 0.75 + delayMs;
+    return Math.round(Math.max(MIN_THINKING_MS, Math.min(budget, left / 2 + delayMs)));
+}
+
+/**
+ * Whether `color` still has enough material to checkmate; when it does not, the
+ * opponent running out of time is a draw instead of a loss.
+ */
+export function canCheckmate(fen: string, color: Color): boolean {
+    const pieces = loadChess(fen).board().flat()
+        .filter((square) => square && square.color === color && square.type !== 'k');
+    if (pieces.length === 0) return false;
+    return !(pieces.length === 1 && (pieces[0]?.type === 'n' || pieces[0]?.type === 'b'));
+}
+
+/**
+ * Formats a clock reading: `1:05:00`, `4:59`, or `0:09.4` in the last 20 seconds.
+ */
+export function formatClock(ms: number): string {
+    const totalSeconds = Math.floor(ms / SECOND);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    if (hours > 0) return `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`;
+    if (ms < 20 * SECOND) return `${minutes}:${seconds}.${Math.floor((ms % SECOND) / 100)}`;
+    return `${minutes}:${seconds}`;
+}
@@ -0,0 +1,65 @@
+import { Square } from 'chess.js';
+
+/** Colours of user drawings, picked with modifier keys as on most chess sites. */
+export type DrawingColor = 'green' | 'red' | 'blue' | 'yellow';
+
+export interface DrawnArrow {
+    from: Square;
+    to: Square;
+    color: DrawingColor;
+}
+
+export interface DrawnCircle {
+    square: Square;
+    color: DrawingColor;
+}
+
+export interface BoardDrawing {
+    arrows: DrawnArrow[];
+    circles: DrawnCircle[];
+}
+
+export const EMPTY_DRAWING: BoardDrawing = { arrows: [], circles: [] };
+
+export const DRAWING_COLORS: Record<DrawingColor, string> = {
+    green: 'rgba(21, 128, 61, 0.8)',
+    red: 'rgba(185, 28, 28, 0.8)',
+    blue: 'rgba(29, 78, 216, 0.8)',
+    yellow: 'rgba(202, 138, 4, 0.8)',
+};
+
+/**
+ * Drawings belong to a position rather than a move, so they reappear whenever the
+ * position does; move counters are ignored.
+ */
+export const drawingKey = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+
+/**
+ * Colour for a drawing made with the given modifier keys held: Shift red, Alt blue,
+ * Ctrl yellow, green otherwise.
+ */
+export function drawingColor({ shiftKey, altKey, ctrlKey }: { shiftKey: boolean; altKey: boolean; ctrlKey: boolean }): DrawingColor {
+    if (shiftKey) return 'red';
+    if (altKey) return 'blue';
+    if (ctrlKey) return 'yellow';
+    return 'green';
+}
+
+/**
+ * Adds the arrow, recolours it if it is there in another colour, or removes it if it is
+ * there in the same colour.
+ */
+export function toggleArrow(drawing: BoardDrawing, arrow: DrawnArrow): BoardDrawing {
+    const existing = drawing.arrows.find(({ from, to }) => from === arrow.from && to === arrow.to);
+    const others = drawing.arrows.filter((candidate) => candidate !== existing);
+    return { ...drawing, arrows: existing?.color === arrow.color ? others : [...others, arrow] };
+}
+
+/**
+ * Adds, recolours or removes a circle, like `toggleArrow`.
+ */
+export function toggleCircle(drawing: BoardDrawing, circle: DrawnCircle): BoardDrawing {
+    const existing = drawing.circles.find(({ square }) => square === circle.square);
+    const others = drawing.circles.filter((candidate) => candidate !== existing);
+    return { ...drawing, circles: existing?.color === circle.color ? others : [...others, circle] };
+}
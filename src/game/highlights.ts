@@ -0,0 +1,66 @@
+import { Chess, PieceSymbol, Square } from 'chess.js';
+import { legalMoves, loadChess, playSan } from './chess960';
+
+export interface SquarePair {
+    from: Square;
+    to: Square;
+}
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+
+/**
+ * From and to squares of the move `san` played in `fen`, or null if it is not legal there.
+ */
+export function moveSquares(fen: string, san: string): SquarePair | null {
+    try {
+        const { from, to } = playSan(fen, san);
+        return { from, to };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * From and to squares of the move that turns position `before` into `after`, or null
+ * if no single legal move does.
+ */
+export function moveBetween(before: string, after: string): SquarePair | null {
+    const placement = (fen: string) => fen.split(' ').slice(0, 2).join(' ');
+    const move = legalMoves(before).find((candidate) => placement(candidate.after) === placement(after));
+    return move ? { from: move.from, to: move.to } : null;
+}
+
+/**
+ * Square of the king of the side to move when it is in check.
+ */
+export function checkedKingSquare(fen: string): Square | null {
+    const game = loadChess(fen);
+    if (!game.inCheck()) return null;
+    const square = game.board().flat().find((piece) => piece?.type === 'k' && piece.color === game.turn())?.square;
+    return square ?? null;
+}
+
+/**
+ * Moves the opponent would have if it were its turn that mate or win material: taking
+ * an undefended piece or a piece worth more than the capturer. Empty while in check,
+ * as the opponent then already has the move it wants.
+ */
+export function findThreats(fen: string): SquarePair[] {
+    const fields = fen.split(' ');
+    const side = fields[1];
+    if (loadChess(fen).inCheck()) return [];
+    fields[1] = side === 'w' ? 'b' : 'w';
+    fields[3] = '-';
+
+    let opponent: Chess;
+    try {
+        opponent = loadChess(fields.join(' '));
+    } catch {
+        return [];
+    }
+    return opponent.moves({ verbose: true })
+        .filter((move) => move.san.endsWith('#') || (move.captured && !move.promotion && (
+            PIECE_VALUES[move.captured] > PIECE_VALUES[move.piece] ||
+            !opponent.isAttacked(move.to, side as 'w' | 'b'))))
+        .map(({ from, to }) => ({ from, to }));
+}
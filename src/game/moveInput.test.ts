@@ -0,0 +1,60 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { completeMoveInput, parseMoveInput } from './moveInput';
+
+const CASTLING = 'r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1';
+// Chess960 position with the king on f1 and its rook on h1: castling kingside puts the
+// king on g1, where it could also just step.
+const CHESS960_CASTLING = 'r4k1r/pppppppp/8/8/8/8/PPPPPPPP/R4K1R w HAha - 0 1';
+
+describe('parseMoveInput', () => {
+    it('reads SAN and UCI', () => {
+        expect(parseMoveInput(DEFAULT_POSITION, 'Nf3')).toEqual({ from: 'g1', to: 'f3', promotion: undefined });
+        expect(parseMoveInput(DEFAULT_POSITION, 'nf3')).toEqual({ from: 'g1', to: 'f3', promotion: undefined });
+        expect(parseMoveInput(DEFAULT_POSITION, 'e4!?')).toEqual({ from: 'e2', to: 'e4', promotion: undefined });
+        expect(parseMoveInput(DEFAULT_POSITION, 'g1f3')).toEqual({ from: 'g1', to: 'f3', promotion: undefined });
+    });
+
+    it('asks for the promotion piece or the missing disambiguation', () => {
+        expect(() => parseMoveInput('8/4P3/8/8/8/8/8/k6K w - - 0 1', 'e7e8')).toThrow('e7e8q');
+        expect(parseMoveInput('8/4P3/8/8/8/8/8/k6K w - - 0 1', 'e8=N')).toEqual({ from: 'e7', to: 'e8', promotion: 'n' });
+        expect(() => parseMoveInput('k7/8/8/8/8/8/K7/R6R w - - 0 1', 'Rd1')).toThrow('ambiguous');
+        expect(parseMoveInput('k7/8/8/8/8/8/K7/R6R w - - 0 1', 'Rad1')).toEqual({ from: 'a1', to: 'd1', promotion: undefined });
+    });
+
+    it('rejects moves that are not legal or cannot be read', () => {
+        expect(() => parseMoveInput(DEFAULT_POSITION, 'Nf4')).toThrow('not a legal move');
+        expect(() => parseMoveInput(DEFAULT_POSITION, 'hello')).toThrow('Cannot read');
+        expect(() => parseMoveInput(DEFAULT_POSITION, ' ')).toThrow('Type a move');
+    });
+
+    it('castles from castling notation and the king\'s move in UCI', () => {
+        expect(parseMoveInput(CASTLING, 'O-O')).toEqual({ from: 'e1', to: 'g1', promotion: undefined });
+        expect(parseMoveInput(CASTLING, '0-0-0')).toEqual({ from: 'e1', to: 'c1', promotion: undefined });
+        expect(parseMoveInput(CASTLING, 'e1g1')).toEqual({ from: 'e1', to: 'g1', promotion: undefined });
+        expect(parseMoveInput(CASTLING, 'e1h1')).toEqual({ from: 'e1', to: 'g1', promotion: undefined });
+    });
+
+    it('does not castle from a king move in SAN', () => {
+        expect(() => parseMoveInput(CASTLING, 'Kg1')).toThrow('not a legal move');
+        expect(() => parseMoveInput(CASTLING, 'Kc1')).toThrow('not a legal move');
+        expect(parseMoveInput(CASTLING, 'Kf1')).toEqual({ from: 'e1', to: 'f1', promotion: undefined });
+    });
+
+    it('tells a Chess960 king step from castling onto the same square', () => {
+        expect(parseMoveInput(CHESS960_CASTLING, 'Kg1')).toEqual({ from: 'f1', to: 'g1', promotion: undefined });
+        expect(parseMoveInput(CHESS960_CASTLING, 'f1g1')).toEqual({ from: 'f1', to: 'g1', promotion: undefined });
+        expect(parseMoveInput(CHESS960_CASTLING, 'O-O')).toEqual({ from: 'f1', to: 'h1', promotion: undefined });
+        expect(parseMoveInput(CHESS960_CASTLING, 'f1h1')).toEqual({ from: 'f1', to: 'h1', promotion: undefined });
+        expect(() => parseMoveInput(CHESS960_CASTLING, 'Kh1')).toThrow('not a legal move');
+    });
+});
+
+describe('completeMoveInput', () => {
+    it('lists the legal moves the text could start', () => {
+        expect(completeMoveInput(DEFAULT_POSITION, 'N').sort()).toEqual(['Na3', 'Nc3', 'Nf3', 'Nh3']);
+        expect(completeMoveInput(DEFAULT_POSITION, 'g1')).toEqual(['Nf3', 'Nh3']);
+        expect(completeMoveInput(CASTLING, '0-0')).toEqual(['O-O', 'O-O-O']);
+        expect(completeMoveInput(DEFAULT_POSITION, '')).toEqual([]);
+    });
+});
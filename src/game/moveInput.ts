@@ -0,0 +1,89 @@
+import { PieceSymbol, Square } from 'chess.js';
+import { LegalMove, legalMoves } from './chess960';
+
+export interface MoveInput {
+    from: Square;
+    to: Square;
+    promotion?: PieceSymbol;
+}
+
+const UCI_PATTERN = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/;
+const SAN_PATTERN = /^([NBRQK])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([NBRQ]))?$/;
+const CASTLING_PATTERN = /^([O0o])-\1(-\1)?$/;
+
+/** Annotations that may be typed after a move but play no part in finding it. */
+const stripAnnotations = (text: string) => text.trim().replace(/[+#!?]+$/, '');
+
+/**
+ * Piece letters may be typed in lower case, except `b` which would be read as the
+ * b-file; `bxc3` is a pawn capture, as in SAN.
+ */
+const normalisePiece = (text: string) => text.replace(/^[nrqk](?=[a-h1-8x])/, (letter) => letter.toUpperCase());
+
+const toInput = (move: LegalMove): MoveInput => ({ from: move.from, to: move.to, promotion: move.promotion });
+
+/**
+ * Reads a move typed in SAN (`Nf3`, `exd5`, `O-O`, `e8=N`) or UCI (`g1f3`, `e7e8q`).
+ * SAN is accepted with a missing or extra capture sign or disambiguation, as long as
+ * exactly one legal move fits.
+ *
+ * @throws Error with a user-facing message when no move or several moves fit.
+ */
+export function parseMoveInput(fen: string, text: string): MoveInput {
+    const moves = legalMoves(fen);
+    const typed = stripAnnotations(text);
+    if (!typed) throw new Error('Type a move such as Nf3 or g1f3');
+
+    const castling = typed.match(CASTLING_PATTERN);
+    if (castling) {
+        const move = moves.find((candidate) => candidate.castling?.side === (castling[2] ? 'q' : 'k'));
+        if (!move) throw new Error(`Cannot castle ${castling[2] ? 'queenside' : 'kingside'} here`);
+        return toInput(move);
+    }
+
+    const uci = typed.match(UCI_PATTERN);
+    if (uci) {
+        const [, from, to, promotion] = uci;
+        const plain = moves.filter((move) => move.from === from && move.to === to && !move.castling);
+        // Castling may be typed as the king moving onto its rook, or to its square when no
+        // other king move goes there.
+        const candidates = plain.length > 0 ? plain : moves.filter((move) => move.from === from &&
+            (move.castling?.kingTo === to || move.castling?.rook === to));
+        if (candidates.length === 0) throw new Error(`${typed} is not a legal move here`);
+        const move = candidates.find((candidate) => candidate.promotion === promotion);
+        if (!move) throw new Error(`Add the piece to promote to, e.g. ${from}${to}q`);
+        return toInput(move);
+    }
+
+    const san = normalisePiece(typed).match(SAN_PATTERN);
+    if (!san) throw new Error(`Cannot read "${text.trim()}" as a move`);
+    const [, piece, fromFile, fromRank, to, promotion] = san;
+    const candidates = moves.filter((move) =>
+        move.piece === (piece ? piece.toLowerCase() : 'p') &&
+        // Castling is only ever typed as O-O or O-O-O, never as a king move.
+        !move.castling && move.to === to &&
+        (!fromFile || move.from[0] === fromFile) &&
+        (!fromRank || move.from[1] === fromRank) &&
+        (!promotion || move.promotion === promotion.toLowerCase()));
+
+    if (candidates.length === 0) throw new Error(`${typed} is not a legal move here`);
+    if (candidates.length > 1) {
+        if (candidates.every((move) => move.from === candidates[0].from && move.promotion)) {
+            throw new Error(`Add the piece to promote to, e.g. ${to}=Q`);
+        }
+        throw new Error(`${typed} is ambiguous: ${candidates.map((move) => move.san).join(' or ')}`);
+    }
+    return toInput(candidates[0]);
+}
+
+/**
+ * Legal moves in SAN that the text typed so far could be the start of, in SAN or UCI.
+ */
+export function completeMoveInput(fen: string, text: string): string[] {
+    const typed = stripAnnotations(text);
+    if (!typed) return [];
+    const san = normalisePiece(typed).replace(/^[0o]/, 'O').replace(/-[0o]/g, '-O');
+    return legalMoves(fen)
+        .filter((move) => move.san.startsWith(san) || move.uci.startsWith(typed))
+        .map((move) => move.san);
+}
@@ -0,0 +1,105 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { playSan } from './chess960';
+import {
+    activeLine,
+    addMove,
+    createMoveTree,
+    deleteVariation,
+    goToNode,
+    isMainLine,
+    MoveTree,
+    moveTreeFromLine,
+    pathTo,
+    playFrom,
+    promoteVariation,
+    redo,
+    takeBack
+} from './moveTree';
+
+/** Adds a SAN move after `parentId`, computing its position. */
+function add(tree: MoveTree, parentId: string, san: string): MoveTree {
+    const move = playSan(tree.nodes[parentId].fen, san);
+    return addMove(tree, parentId, move.san, move.after);
+}
+
+const sanLine = (tree: MoveTree) => activeLine(tree).slice(1).map((node) => node.san);
+
+describe('moveTree', () => {
+    it('builds a single line with the last move current and live', () => {
+        const tree = moveTreeFromLine(DEFAULT_POSITION, ['e4', 'e5', 'Nf3']);
+
+        expect(sanLine(tree)).toEqual(['e4', 'e5', 'Nf3']);
+        expect(tree.currentId).toBe(tree.liveId);
+        expect(tree.nodes[tree.liveId].fen).toBe('rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2');
+        expect(pathTo(tree, tree.liveId).map((node) => node.san)).toEqual([null, 'e4', 'e5', 'Nf3']);
+    });
+
+    it('reuses a move already played from the same position', () => {
+        const tree = moveTreeFromLine(DEFAULT_POSITION, ['e4']);
+        const again = add(goToNode(tree, tree.rootId), tree.rootId, 'e4');
+
+        expect(Object.keys(again.nodes)).toHaveLength(2);
+        expect(again.currentId).toBe(tree.liveId);
+    });
+
+    it('keeps moves from a browsed position as a side variation', () => {
+        const tree = moveTreeFromLine(DEFAULT_POSITION, ['e4', 'e5']);
+        const afterE4 = tree.nodes[tree.liveId].parentId as string;
+        const varied = add(goToNode(tree, afterE4), afterE4, 'c5');
+
+        expect(varied.nodes[afterE4].children.map((id) => varied.nodes[id].san)).toEqual(['e5', 'c5']);
+        expect(varied.liveId).toBe(tree.liveId);
+        expect(isMainLine(varied, varied.currentId)).toBe(false);
+        expect(sanLine(varied)).toEqual(['e4', 'c5']);
+    });
+
+    it('makes a move played from the live node the main continuation', () => {
+        const tree = moveTreeFromLine(DEFAULT_POSITION, ['e4', 'e5']);
+        const takenBack = takeBack(tree, 1);
+        const replaced = add(takenBack, takenBack.liveId, 'c5');
+
+        expect(replaced.nodes[takenBack.liveId].children.map((id) => replaced.nodes[id].san)).toEqual(['c5', 'e5']);
+        expect(replaced.liveId).toBe(replaced.currentId);
+    });
+
+    it('takes back and redoes moves along the game\'s line', () => {
+        const tree = moveTreeFromLine(DEFAULT_POSITION, ['e4', 'e5', 'Nf3']);
+        const takenBack = takeBack(tree, 2);
+
+        expect(takenBack.nodes[takenBack.liveId].san).toBe('e4');
+        expect(takeBack(tree, 10).liveId).toBe(tree.rootId);
+        expect(redo(redo(takenBack)).liveId).toBe(tree.liveId);
+        expect(redo(tree)).toBe(tree);
+    });
+
+    it('promotes a variation one branch point at a time', () => {
+        let tree = moveTreeFromLine(DEFAULT_POSITION, ['e4', 'e5']);
+        const afterE4 = tree.nodes[tree.liveId].parentId as string;
+        tree = add(goToNode(tree, afterE4), afterE4, 'c5');
+        tree = add(tree, tree.currentId, 'Nf3');
+
+        const promoted = promoteVariation(tree, tree.currentId);
+        expect(isMainLine(promoted, promoted.currentId)).toBe(true);
+        expect(promoteVariation(promoted, promoted.currentId)).toBe(promoted);
+    });
+
+    it('deletes a variation, moving the current and live nodes out of it', () => {
+        const tree = moveTreeFromLine(DEFAULT_POSITION, ['e4', 'e5', 'Nf3']);
+        const afterE4 = tree.nodes[tree.nodes[tree.liveId].parentId as string].parentId as string;
+        const e5 = tree.nodes[afterE4].children[0];
+        const deleted = deleteVariation(tree, e5);
+
+        expect(Object.keys(deleted.nodes)).toHaveLength(2);
+        expect(deleted.liveId).toBe(afterE4);
+        expect(deleted.currentId).toBe(afterE4);
+        expect(deleteVariation(tree, tree.rootId)).toBe(tree);
+    });
+
+    it('leaves the tree alone for unknown nodes', () => {
+        const tree = createMoveTree(DEFAULT_POSITION);
+        expect(goToNode(tree, 'missing')).toBe(tree);
+        expect(playFrom(tree, 'missing')).toBe(tree);
+        expect(addMove(tree, 'missing', 'e4', DEFAULT_POSITION)).toBe(tree);
+    });
+});
@@ -0,0 +1,185 @@
+import { playSan } from './chess960';
+
+export interface MoveNode {
+    id: string;
+    parentId: string | null;
+    /** Move leading to this node in SAN; null for the root. */
+    san: string | null;
+    /** Position after the move. */
+    fen: string;
+    /** Continuations; the first one is the main line, the rest are side variations. */
+    children: string[];
+}
+
+/**
+ * All moves tried in a game. `currentId` is the node shown on the board; `liveId` is
+ * where the game itself stands, which differs while browsing or after a takeback.
+ * Every function here returns a new tree and leaves its input untouched.
+ */
+export interface MoveTree {
+    rootId: string;
+    nodes: Record<string, MoveNode>;
+    currentId: string;
+    liveId: string;
+    nextId: number;
+}
+
+const ROOT_ID = 'root';
+
+export function createMoveTree(startFen: string): MoveTree {
+    return {
+        rootId: ROOT_ID,
+        nodes: { [ROOT_ID]: { id: ROOT_ID, parentId: null, san: null, fen: startFen, children: [] } },
+        currentId: ROOT_ID,
+        liveId: ROOT_ID,
+        nextId: 1,
+    };
+}
+
+/**
+ * Builds a tree holding a single line of moves, with the last one current.
+ */
+export function moveTreeFromLine(startFen: string, moves: string[]): MoveTree {
+    return moves.reduce((tree, san) => {
+        const move = playSan(tree.nodes[tree.currentId].fen, san);
+        return addMove(tree, tree.currentId, move.san, move.after);
+    }, createMoveTree(startFen));
+}
+
+/**
+ * Adds a move after `parentId`, reusing an existing child when the same move was
+ * already played there. When the parent is the current node, the new move becomes current.
+ * A move played from the live node becomes live and the main continuation there, so
+ * the game's own course is always what `redo` follows.
+ */
+export function addMove(tree: MoveTree, parentId: string, san: string, fen: string): MoveTree {
+    const parent = tree.nodes[parentId];
+    if (!parent) return tree;
+
+    const existing = parent.children.find((childId) => tree.nodes[childId].san === san);
+    const id = existing ?? `n${tree.nextId}`;
+    const isLive = tree.liveId === parentId;
+    const otherChildren = parent.children.filter((childId) => childId !== id);
+
+    return {
+        ...tree,
+        nodes: {
+            ...tree.nodes,
+            [parentId]: { ...parent, children: isLive ? [id, ...otherChildren] : existing ? parent.children : [...parent.children, id] },
+            ...(existing ? {} : { [id]: { id, parentId, san, fen, children: [] } }),
+        },
+        currentId: tree.currentId === parentId ? id : tree.currentId,
+        liveId: isLive ? id : tree.liveId,
+        nextId: existing ? tree.nextId : tree.nextId + 1,
+    };
+}
+
+/**
+ * Continues the game from `nodeId`: it becomes both live and current.
+ */
+export function playFrom(tree: MoveTree, nodeId: string): MoveTree {
+    return tree.nodes[nodeId] ? { ...tree, liveId: nodeId, currentId: nodeId } : tree;
+}
+
+/**
+ * Takes back up to `plies` moves from the live node. The moves stay in the tree so
+ * they can be redone.
+ */
+export function takeBack(tree: MoveTree, plies: number): MoveTree {
+    let node = tree.nodes[tree.liveId];
+    for (let i = 0; i < plies && node.parentId; i++) {
+        node = tree.nodes[node.parentId];
+    }
+    return playFrom(tree, node.id);
+}
+
+/**
+ * Replays the next move of the game's line after a takeback, if there is one.
+ */
+export function redo(tree: MoveTree): MoveTree {
+    const next = tree.nodes[tree.liveId].children[0];
+    return next ? playFrom(tree, next) : tree;
+}
+
+export function goToNode(tree: MoveTree, nodeId: string): MoveTree {
+    return tree.nodes[nodeId] ? { ...tree, currentId: nodeId } : tree;
+}
+
+/**
+ * Nodes from the root down to `nodeId`, both included.
+ */
+export function pathTo(tree: MoveTree, nodeId: string): MoveNode[] {
+    const path: MoveNode[] = [];
+    for (let node: MoveNode | undefined = tree.nodes[nodeId]; node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+        path.unshift(node);
+    }
+    return path;
+}
+
+/**
+ * The line through the current node: its path from the root, continued along the
+ * first child of each node to the end.
+ */
+export function activeLine(tree: MoveTree): MoveNode[] {
+    const line = pathTo(tree, tree.currentId);
+    for (let node = line[line.length - 1]; node.children.length > 0;) {
+        node = tree.nodes[node.children[0]];
+        line.push(node);
+    }
+    return line;
+}
+
+/**
+ * Whether the node is part of the main line (first child all the way from the root).
+ */
+export function isMainLine(tree: MoveTree, nodeId: string): boolean {
+    return pathTo(tree, nodeId).every((node) =>
+        node.parentId === null || tree.nodes[node.parentId].children[0] === node.id);
+}
+
+/**
+ * Makes the variation containing `nodeId` the preferred continuation at its nearest
+ * branch point. Repeated calls promote it further up until it is the main line.
+ */
+export function promoteVariation(tree: MoveTree, nodeId: string): MoveTree {
+    const branch = pathTo(tree, nodeId).reverse().find((node) =>
+        node.parentId !== null && tree.nodes[node.parentId].children[0] !== node.id);
+    if (!branch || !branch.parentId) return tree;
+
+    const parent = tree.nodes[branch.parentId];
+    return {
+        ...tree,
+        nodes: {
+            ...tree.nodes,
+            [parent.id]: { ...parent, children: [branch.id, ...parent.children.filter((id) => id !== branch.id)] },
+        },
+    };
+}
+
+/**
+ * Removes a move and everything played after it. If the current or live node is
+ * removed, the parent takes its place. The root cannot be deleted.
+ */
+export function deleteVariation(tree: MoveTree, nodeId: string): MoveTree {
+    const node = tree.nodes[nodeId];
+    if (!node || !node.parentId) return tree;
+
+    const removed = new Set<string>();
+    const collect = (id: string) => {
+        removed.add(id);
+        tree.nodes[id].children.forEach(collect);
+    };
+    collect(nodeId);
+
+    const nodes = Object.fromEntries(Object.entries(tree.nodes).filter(([id]) => !removed.has(id)));
+    const parent = tree.nodes[node.parentId];
+    nodes[parent.id] = { ...parent, children: parent.children.filter((id) => id !== nodeId) };
+
+    return {
+        ...tree,
+        nodes,
+        currentId: removed.has(tree.currentId) ? parent.id : tree.currentId,
+        liveId: removed.has(tree.liveId) ? parent.id : tree.liveId,
+    };
+}
+
@@ -0,0 +1,41 @@
+import { uciToMove } from '../engine';
+import { playMove } from './chess960';
+
+/**
+ * Converts a principal variation from UCI into SAN, stopping at the first move that is
+ * not legal in the position (engines occasionally report stale PVs mid-search).
+ */
+export function pvToSan(fen: string, pv: string[]): string[] {
+    const san: string[] = [];
+    let position = fen;
+    for (const uci of pv) {
+        try {
+            const move = playMove(position, uciToMove(uci));
+            san.push(move.san);
+            position = move.after;
+        } catch {
+            break;
+        }
+    }
+    return san;
+}
+
+/**
+ * Formats SAN moves with move numbers, e.g. `12... Nf6 13. Bg5 h6`.
+ */
+export function formatMoveSequence(fen: string, san: string[]): string {
+    const [, turn, , , , fullMove] = fen.split(' ');
+    let moveNumber = Number(fullMove) || 1;
+    let whiteToMove = turn !== 'b';
+    return san.map((move, index) => {
+        let text = move;
+        if (whiteToMove) {
+            text = `${moveNumber}. ${move}`;
+        } else if (index === 0) {
+            text = `${moveNumber}... ${move}`;
+        }
+        if (!whiteToMove) moveNumber += 1;
+        whiteToMove = !whiteToMove;
+        return text;
+    }).join(' ');
+}
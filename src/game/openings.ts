@@ -0,0 +1,107 @@
+import { Chess } from 'chess.js';
+import { OPENING_LINES } from './openingBook';
+
+export interface Opening {
+    eco: string;
+    name: string;
+}
+
+export interface BookMove {
+    san: string;
+    /** Opening the move leads into. */
+    opening: Opening | null;
+}
+
+export interface OpeningInfo {
+    /** Last named book position reached, or null when the game never was in the book. */
+    opening: Opening | null;
+    /** 0-based index of the first move out of the book; null while still in it. */
+    leftBookAt: number | null;
+}
+
+interface BookPosition {
+    /** Name given to exactly this position by the book. */
+    opening: Opening | null;
+    /** Book moves from here, by SAN, with the key of the position they lead to. */
+    moves: Map<string, string>;
+}
+
+let book: Map<string, BookPosition> | null = null;
+
+/**
+ * Positions are matched on placement, side to move, castling and en passant, so
+ * transpositions are recognised regardless of move counters.
+ */
+const positionKey = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+
+function getBook(): Map<string, BookPosition> {
+    if (book) return book;
+    const positions = new Map<string, BookPosition>();
+    const positionAt = (key: string) => {
+        let position = positions.get(key);
+        if (!position) {
+            position = { opening: null, moves: new Map() };
+            positions.set(key, position);
+        }
+        return position;
+    };
+
+    OPENING_LINES.forEach(([eco, name, moves]) => {
+        const game = new Chess();
+        let key = positionKey(game.fen());
+        moves.split(' ').forEach((san) => {
+            const move = game.move(san);
+            const next = positionKey(move.after);
+            positionAt(key).moves.set(move.san, next);
+            key = next;
+        });
+        const position = positionAt(key);
+        if (!position.opening) position.opening = { eco, name };
+    });
+
+    book = positions;
+    return book;
+}
+
+/**
+ * Opening of a game from its positions (start position first): the last named book
+ * position on the way, and the move that left the book.
+ */
+export function identifyOpening(positions: string[]): OpeningInfo {
+    const positionsByKey = getBook();
+    if (!positionsByKey.has(positionKey(positions[0]))) return { opening: null, leftBookAt: null };
+
+    let opening: Opening | null = null;
+    for (let ply = 0; ply < positions.length; ply++) {
+        const position = positionsByKey.get(positionKey(positions[ply]));
+        if (!position) return { opening, leftBookAt: ply - 1 };
+        opening = position.opening ?? opening;
+    }
+    return { opening, leftBookAt: null };
+}
+
+/**
+ * Book continuations from a position, each named after the first named position
+ * further along its line.
+ */
+export function bookMoves(fen: string): BookMove[] {
+    const positionsByKey = getBook();
+    const position = positionsByKey.get(positionKey(fen));
+    if (!position) return [];
+
+    return [...position.moves].map(([san, key]) => {
+        let next = positionsByKey.get(key);
+        while (next && !next.opening && next.moves.size > 0) {
+            next = positionsByKey.get(next.moves.values().next().value as string);
+        }
+        return { san, opening: next?.opening ?? null };
+    });
+}
+
+/**
+ * A random book move for the position, or null once out of the book.
+ */
+export function pickBookMove(fen: string, random = Math.random): string | null {
+    const moves = bookMoves(fen);
+    return moves.length > 0 ? moves[Math.floor(random() * moves.length)].san : null;
+}
@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { DEFAULT_POSITION } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { getStrengthProfile } from '../engine';
+import { chess960StartFen, toXFen } from './chess960';
+import { exportPgn, formatPgnDate, importPgn } from './pgn';
+import { win } from './result';
+
+const DATE = new Date(2024, 2, 5);
+const SCHOLARS_MATE = ['e4', 'e5', 'Bc4', 'Nc6', 'Qh5', 'Nf6', 'Qxf7#'];
+/** From Chess960 position 0, where the f rooks make way for both sides to castle short. */
+const CHESS960_GAME = ['Nf3', 'Nf6', 'Re1', 'Re8', 'O-O', 'O-O'];
+
+describe('exportPgn', () => {
+    it('records the players, the clock and the result seen on the board', () => {
+        const pgn = exportPgn({
+            startFen: DEFAULT_POSITION,
+            moveHistory: SCHOLARS_MATE,
+            engines: { b: getStrengthProfile('expert') },
+            timeControl: { baseMs: 300000, incrementMs: 2000, delayMs: 0 },
+            date: DATE,
+        });
+
+        expect(pgn).toContain('[Date "2024.03.05"]');
+        expect(pgn).toContain('[White "Player"]');
+        expect(pgn).toContain('[Black "Stockfish Expert (2s per move, Elo 2200)"]');
+        expect(pgn).toContain('[BlackElo "2200"]');
+        expect(pgn).toContain('[TimeControl "300+2"]');
+        expect(pgn).toContain('[Result "1-0"]');
+        expect(pgn).toContain('[Termination "normal"]');
+        expect(pgn).not.toContain('[FEN');
+        expect(pgn).toMatch(/4\. Qxf7# 1-0$/);
+    });
+
+    it('records an outcome declared off the board', () => {
+        const pgn = exportPgn({ startFen: DEFAULT_POSITION, moveHistory: ['e4'], engines: {}, outcome: win('w', 'timeout'), date: DATE });
+
+        expect(pgn).toContain('[Result "1-0"]');
+        expect(pgn).toContain('[Termination "time forfeit"]');
+    });
+
+    it('writes Chess960 games with a Variant tag and an X-FEN', () => {
+        const startFen = chess960StartFen(0);
+
+        const empty = exportPgn({ startFen, moveHistory: [], engines: {}, date: DATE });
+        expect(empty).toContain('[Variant "Chess960"]');
+        expect(empty).toContain(`[FEN "${toXFen(startFen)}"]`);
+        expect(empty).toMatch(/\n\n\*$/);
+
+        const played = exportPgn({ startFen, moveHistory: CHESS960_GAME, engines: {}, date: DATE });
+        expect(played).toMatch(/3\. O-O O-O \*$/);
+    });
+
+    it('formats dates with zero padding', () => {
+        expect(formatPgnDate(DATE)).toBe('2024.03.05');
+    });
+});
+
+describe('importPgn', () => {
+    it('keeps the main line only, without comments, NAGs and variations', () => {
+        const game = importPgn([
+            '[Event "Casual"]',
+            '[Result "1-0"]',
+            '',
+            '1. e4 {best by test} e5 2. Bc4 (2. Nf3 Nc6 (2... d6)) Nc6 $1 3. Qh5 Nf6?? 4. Qxf7# 1-0',
+        ].join('\n'));
+
+        expect(game.startFen).toBe(DEFAULT_POSITION);
+        expect(game.moveHistory).toEqual(SCHOLARS_MATE);
+        expect(game.positions).toHaveLength(SCHOLARS_MATE.length + 1);
+        expect(game.headers.Event).toBe('Casual');
+    });
+
+    it('starts from the FEN tag', () => {
+        const fen = '4k3/8/8/8/8/8/4P3/4K3 w - - 0 1';
+        const game = importPgn(`[SetUp "1"]\n[FEN "${fen}"]\n\n1. e4 *`);
+
+        expect(game.startFen).toBe(fen);
+        expect(game.moveHistory).toEqual(['e4']);
+    });
+
+    it('reads back an exported Chess960 game', () => {
+        const startFen = chess960StartFen(0);
+        const game = importPgn(exportPgn({ startFen, moveHistory: CHESS960_GAME, engines: {}, date: DATE }));
+
+        expect(game.startFen).toBe(startFen);
+        expect(game.moveHistory).toEqual(CHESS960_GAME);
+        expect(game.positions[game.positions.length - 1]).toBe('bbqnrrk1/pppppppp/5n2/8/8/5N2/PPPPPPPP/BBQNRRK1 w - - 6 4');
+    });
+
+    it('rejects illegal moves', () => {
+        expect(() => importPgn('1. e5 *')).toThrow();
+        expect(() => importPgn('[Variant "Chess960"]\n[FEN "bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1"]\n\n1. e5 *'))
+            .toThrow('Illegal move in PGN: e5');
+    });
+});
@@ -0,0 +1,196 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { describeStrengthProfile, StrengthProfile } from '../engine';
+import { fromXFen, isChess960Game, playSan, replayGame, toXFen } from './chess960';
+import { TimeControl } from './clock';
+import { formatMoveSequence } from './notation';
+import { automaticOutcome, GameOutcome } from './result';
+
+export interface PgnExportOptions {
+    /** FEN the game started from. */
+    startFen: string;
+    /** Moves in SAN, in the order they were played. */
+    moveHistory: string[];
+    /**
+     * Strength of the engine on each side it played, recorded in its player name and
+     * Elo tag; sides without one were played by people.
+     */
+    engines: Partial<Record<'w' | 'b', StrengthProfile>>;
+    /** Clock settings, when the game was timed. */
+    timeControl?: TimeControl | null;
+    /**
+     * How the game ended, when that is not to be seen on the board: a resignation, an
+     * agreed or claimed draw, a time forfeit.
+     */
+    outcome?: GameOutcome | null;
+    date?: Date;
+}
+
+export interface ImportedGame {
+    startFen: string;
+    moveHistory: string[];
+    /** FEN after every ply, starting with `startFen`. */
+    positions: string[];
+    headers: Record<string, string>;
+}
+
+const ENGINE_PLAYER = 'Stockfish';
+const HUMAN_PLAYER = 'Player';
+const PGN_LINE_WIDTH = 80;
+
+/**
+ * Formats a date as the PGN `YYYY.MM.DD` tag value.
+ */
+export function formatPgnDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
+
+/**
+ * Builds a PGN with the Seven Tag Roster, plus SetUp/FEN when the game did not start
+ * from the initial position and the engine's Elo when it played at a limited rating.
+ * Chess960 games get a `Variant` tag and their start position in X-FEN.
+ */
+export function exportPgn({ startFen, moveHistory, engines, timeControl, outcome, date = new Date() }: PgnExportOptions): string {
+    const game = new Chess();
+    const playerName = (color: 'w' | 'b') => {
+        const profile = engines[color];
+        return profile ? `${ENGINE_PLAYER} ${profile.label} (${describeStrengthProfile(profile)})` : HUMAN_PLAYER;
+    };
+
+    game.setHeader('Event', 'Chess Companion game');
+    game.setHeader('Site', window.location.host || '?');
+    game.setHeader('Date', formatPgnDate(date));
+    game.setHeader('Round', '-');
+    game.setHeader('White', playerName('w'));
+    game.setHeader('Black', playerName('b'));
+    game.setHeader('Result', '*');
+    if (timeControl) {
+        // PGN has no notation for a delay, so only base time and increment are recorded.
+        game.setHeader('TimeControl', `${timeControl.baseMs / 1000}+${timeControl.incrementMs / 1000}`);
+    }
+    const whiteElo = engines.w?.strength?.elo;
+    const blackElo = engines.b?.strength?.elo;
+    if (whiteElo) game.setHeader('WhiteElo', String(whiteElo));
+    if (blackElo) game.setHeader('BlackElo', String(blackElo));
+    const chess960 = isChess960Game(startFen);
+    if (!chess960) {
+        if (startFen !== DEFAULT_POSITION) {
+            game.load(startFen, { preserveHeaders: true });
+        }
+        moveHistory.forEach((san) => game.move(san));
+    }
+
+    const ending = outcome ?? automaticOutcome(chess960 ? replayGame(startFen, moveHistory) : game);
+    game.setHeader('Result', ending?.result ?? '*');
+    if (ending) {
+        game.setHeader('Termination', ending.termination.startsWith('timeout') ? 'time forfeit' : 'normal');
+    }
+    return chess960 ? exportChess960Pgn(game.getHeaders(), startFen, moveHistory) : game.pgn({ maxWidth: PGN_LINE_WIDTH });
+}
+
+/**
+ * chess.js cannot replay Chess960 castling, so the movetext of these games is written here,
+ * laid out as chess.js does for other games.
+ */
+function exportChess960Pgn(headers: Record<string, string>, startFen: string, moveHistory: string[]): string {
+    const tags = {
+        ...headers,
+        Variant: 'Chess960',
+        SetUp: '1',
+        FEN: toXFen(startFen),
+    };
+    const lines = [''];
+    [...formatMoveSequence(startFen, moveHistory).split(' '), headers.Result].filter(Boolean).forEach((token) => {
+        const last = lines[lines.length - 1];
+        if (last && last.length + token.length + 1 > PGN_LINE_WIDTH) lines.push(token);
+        else lines[lines.length - 1] = last ? `${last} ${token}` : token;
+    });
+    const header = Object.entries(tags).map(([name, value]) => `[${name} "${value}"]`).join('\n');
+    return `${header}\n\n${lines.join('\n')}`;
+}
+
+const TAG_PATTERN = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]\s*$/;
+const RESULT_TOKENS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+/**
+ * SAN moves of the main line of a movetext, without move numbers, comments, NAGs,
+ * annotations, variations and the result.
+ */
+function mainLineMoves(movetext: string): string[] {
+    let text = movetext.replace(/\{[^}]*\}/g, ' ').replace(/;[^\n]*/g, ' ');
+    // Innermost variations first, until none are left.
+    while (/\([^()]*\)/.test(text)) text = text.replace(/\([^()]*\)/g, ' ');
+    return text
+        .replace(/\d+\.(\.\.)?/g, ' ')
+        .split(/\s+/)
+        .filter((token) => token && !token.startsWith('$') && !RESULT_TOKENS.includes(token))
+        .map((token) => token.replace(/[!?]+$/, '').replace(/^0-0(-0)?/, (castling) => castling.replace(/0/g, 'O')));
+}
+
+/**
+ * Reads a Chess960 PGN, which chess.js cannot: its X-FEN start position and castling
+ * are played with the Chess960 helpers.
+ */
+function importChess960Pgn(pgn: string, headers: Record<string, string>): ImportedGame {
+    if (!headers.FEN) throw new Error('Chess960 PGN without a FEN tag');
+    const startFen = fromXFen(headers.FEN);
+    const movetext = pgn.split('\n').filter((line) => !TAG_PATTERN.test(line)).join('\n');
+    const moveHistory: string[] = [];
+    const positions = [startFen];
+    mainLineMoves(movetext).forEach((san) => {
+        let move;
+        try {
+            move = playSan(positions[positions.length - 1], san);
+        } catch {
+            throw new Error(`Illegal move in PGN: ${san}`);
+        }
+        moveHistory.push(move.san);
+        positions.push(move.after);
+    });
+    return { startFen, moveHistory, positions, headers };
+}
+
+/**
+ * Parses a PGN (comments, NAGs and variations are accepted; only the main line is kept).
+ * Chess960 games are recognised by their `Variant` tag.
+ *
+ * @throws Error with a user-facing message when the PGN cannot be read.
+ */
+export function importPgn(pgn: string): ImportedGame {
+    const tags = Object.fromEntries(pgn.trim().split('\n').flatMap((line) => {
+        const match = TAG_PATTERN.exec(line);
+        return match ? [[match[1], match[2].replace(/\\(.)/g, '$1')]] : [];
+    }));
+    if (/960|fischerandom/i.test(tags.Variant ?? '')) return importChess960Pgn(pgn.trim(), tags);
+
+    const parsed = new Chess();
+    try {
+        parsed.loadPgn(pgn.trim());
+    } catch (error) {
+        throw new Error(error instanceof Error ? error.message : 'Invalid PGN');
+    }
+
+    const headers = parsed.getHeaders();
+    const startFen = headers.SetUp === '1' && headers.FEN ? headers.FEN : DEFAULT_POSITION;
+    const replay = new Chess(startFen);
+    const moveHistory = parsed.history();
+    const positions = [replay.fen()];
+    moveHistory.forEach((san) => {
+        replay.move(san);
+        positions.push(replay.fen());
+    });
+
+    return { startFen, moveHistory, positions, headers };
+}
+
+/**
+ * Offers the PGN as a file download.
+ */
+export function downloadPgn(pgn: string, fileName: string) {
+    const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
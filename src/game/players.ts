@@ -0,0 +1,59 @@
+import { Color } from 'chess.js';
+
+export type PlayerModeId = 'companion' | 'hint' | 'hotseat' | 'engine-vs-engine';
+
+export interface PlayerMode {
+    id: PlayerModeId;
+    label: string;
+    description: string;
+    /** Whether a side has to be picked on the start screen. */
+    choosesColor: boolean;
+}
+
+export const PLAYER_MODES: PlayerMode[] = [
+    {
+        id: 'companion',
+        label: 'Companion',
+        description: 'The engine plays your side; you enter your opponent\'s moves.',
+        choosesColor: true,
+    },
+    {
+        id: 'hint',
+        label: 'Hints only',
+        description: 'You enter the moves of both sides; the engine suggests a move when asked.',
+        choosesColor: true,
+    },
+    {
+        id: 'hotseat',
+        label: 'Human vs human',
+        description: 'Two players take turns on this board, with analysis if you want it.',
+        choosesColor: false,
+    },
+    {
+        id: 'engine-vs-engine',
+        label: 'Engine vs engine',
+        description: 'Watch two engines play each other at the strengths you pick.',
+        choosesColor: false,
+    },
+];
+
+export const DEFAULT_PLAYER_MODE: PlayerModeId = 'companion';
+
+export function getPlayerMode(id: PlayerModeId): PlayerMode {
+    return PLAYER_MODES.find((mode) => mode.id === id) ?? PLAYER_MODES[0];
+}
+
+/**
+ * Sides the engine moves for. `color` is the side picked on the start screen, which the
+ * engine plays in companion mode.
+ */
+export function engineSides(mode: PlayerModeId, color: Color): Color[] {
+    switch (mode) {
+        case 'companion':
+            return [color];
+        case 'engine-vs-engine':
+            return ['w', 'b'];
+        default:
+            return [];
+    }
+}
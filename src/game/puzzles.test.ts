@@ -0,0 +1,57 @@
+import { Color, DEFAULT_POSITION } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { MockEngine } from '../engine/mockEngine';
+import { SavedGame, userColorOf } from '../storage/gameDatabase';
+import { PlayerModeId } from './players';
+import { extractPuzzles, isSolution, PuzzleSource } from './puzzles';
+
+// White hangs its queen on move 2 (ply 2), Black on move 4 (ply 7).
+const MOVES = ['e4', 'd5', 'Qg4', 'Bxg4', 'Nf3', 'Qd6', 'Nh4', 'Qxh2'];
+
+/** A saved game with these moves, as the puzzle trainer hands it over. */
+function sourceOf(mode: PlayerModeId, userColor?: Color): PuzzleSource {
+    const game: SavedGame = {
+        id: 'game',
+        date: '2026-01-01T00:00:00.000Z',
+        startFen: DEFAULT_POSITION,
+        moveHistory: MOVES,
+        result: '*',
+        userColor,
+        strengthId: 'master',
+        mode,
+        timeControl: null,
+        opening: '',
+        pgn: '',
+    };
+    return { ...game, userColor: userColorOf(game) };
+}
+
+const puzzlePlies = async (source: PuzzleSource) =>
+    (await extractPuzzles(new MockEngine(), source, { depth: 1 })).map((puzzle) => puzzle.id);
+
+describe('extractPuzzles', () => {
+    it('takes puzzles from the side the user picked in companion games', async () => {
+        expect(await puzzlePlies(sourceOf('companion', 'w'))).toEqual(['game:2']);
+        expect(await puzzlePlies(sourceOf('companion', 'b'))).toEqual(['game:7']);
+    });
+
+    it('takes puzzles from the side the user picked in hints only games', async () => {
+        expect(await puzzlePlies(sourceOf('hint', 'b'))).toEqual(['game:7']);
+    });
+
+    it('takes puzzles from both sides of a game between two people', async () => {
+        expect(await puzzlePlies(sourceOf('hotseat'))).toEqual(['game:2', 'game:7']);
+    });
+
+    it('sets up the position before the mistake with the engine\'s answer', async () => {
+        const [puzzle] = await extractPuzzles(new MockEngine(), sourceOf('companion', 'w'), { depth: 1 });
+
+        expect(puzzle.gameId).toBe('game');
+        expect(puzzle.fen.split(' ')[1]).toBe('w');
+        expect(puzzle.playedSan).toBe('Qg4');
+        expect(puzzle.classification).toBe('blunder');
+        expect(puzzle.solutions.length).toBeGreaterThan(0);
+        expect(isSolution(puzzle, puzzle.solutions[0])).toBe(true);
+        expect(isSolution(puzzle, 'd1g4')).toBe(false);
+    });
+});
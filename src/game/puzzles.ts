@@ -0,0 +1,95 @@
+import { Color } from 'chess.js';
+import { EngineProvider, EngineScore, uciToMove } from '../engine';
+import { playMove, playSan } from './chess960';
+import { newRepetition, RepetitionState } from './repetition';
+import { MoveClassification, reviewGame, winPercent } from './review';
+
+/** A position from one of the user's games where they went wrong, to find the best move in. */
+export interface Puzzle {
+    /** `<game id>:<ply>`, so extracting a game twice yields the same puzzles. */
+    id: string;
+    gameId: string;
+    /** Position to solve; the side to move is the user's. */
+    fen: string;
+    /** Moves accepted as the answer in UCI, the engine's choice first. */
+    solutions: string[];
+    /** Engine's line after its choice, in UCI, shown once the puzzle is answered. */
+    line: string[];
+    /** Score of the best move for the side to move. */
+    score: EngineScore;
+    /** Move played in the game, in SAN, and how the review rated it. */
+    playedSan: string;
+    classification: MoveClassification;
+    repetition: RepetitionState;
+}
+
+/** Game puzzles are taken from; saved games qualify. */
+export interface PuzzleSource {
+    id: string;
+    startFen: string;
+    moveHistory: string[];
+    /** Side the user played; puzzles come from its moves, or from both sides' when null. */
+    userColor: Color | null;
+}
+
+export interface PuzzleExtractionOptions {
+    depth: number;
+    signal?: AbortSignal;
+    onProgress?: (analysed: number, total: number) => void;
+}
+
+/** Ratings of a user's move that make its position a puzzle. */
+const PUZZLE_CLASSIFICATIONS: MoveClassification[] = ['missed-mate', 'blunder', 'mistake'];
+/** Lines shown by the engine when looking for alternatives to its best move. */
+const CANDIDATE_LINES = 3;
+/** Loss in winning chances (percentage points) against the best move that still solves a puzzle. */
+const ACCEPTED_LOSS = 5;
+
+/**
+ * Finds the positions of a saved game where the user's move lost a lot against the
+ * engine's best move, and turns each into a puzzle. Other moves as good as the best
+ * one, within a few points of winning chances, are accepted as well.
+ */
+export async function extractPuzzles(engine: EngineProvider, saved: PuzzleSource, { depth, signal, onProgress }: PuzzleExtractionOptions): Promise<Puzzle[]> {
+    const positions = [saved.startFen];
+    saved.moveHistory.forEach((san) => positions.push(playSan(positions[positions.length - 1], san).after));
+
+    const review = await reviewGame(engine, positions, saved.moveHistory, { depth, signal, onProgress });
+    const puzzles: Puzzle[] = [];
+    for (const move of review.moves) {
+        if ((saved.userColor && move.color !== saved.userColor) || !PUZZLE_CLASSIFICATIONS.includes(move.classification)) continue;
+        const fen = positions[move.ply];
+        const { lines } = await engine.analyse(fen, { depth, multiPv: CANDIDATE_LINES, signal });
+        const best = lines[0];
+        if (!best || best.pv.length === 0) continue;
+        const solutions = lines
+            .filter((line) => line.pv.length > 0 && winPercent(best.score) - winPercent(line.score) <= ACCEPTED_LOSS)
+            .map((line) => line.pv[0]);
+
+        puzzles.push({
+            id: `${saved.id}:${move.ply}`,
+            gameId: saved.id,
+            fen,
+            solutions,
+            line: best.pv,
+            score: best.score,
+            playedSan: move.san,
+            classification: move.classification,
+            repetition: newRepetition(),
+        });
+    }
+    return puzzles;
+}
+
+/**
+ * Whether the move (in UCI) solves the puzzle. Any mate in one solves it, as there is
+ * no better move than that.
+ */
+export function isSolution(puzzle: Puzzle, uci: string): boolean {
+    if (puzzle.solutions.includes(uci)) return true;
+    try {
+        return playMove(puzzle.fen, uciToMove(uci)).san.endsWith('#');
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,56 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** A failed puzzle comes back within the same session. */
+const RETRY_DELAY_MS = 10 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_EASE = 3;
+
+/** Spaced-repetition schedule of a puzzle, after the SM-2 algorithm with pass/fail grades. */
+export interface RepetitionState {
+    /** ISO timestamp from which the puzzle is due again. */
+    due: string;
+    intervalDays: number;
+    /** Factor the interval grows by after each success. */
+    ease: number;
+    /** Successes in a row since the last failure. */
+    streak: number;
+    attempts: number;
+    successes: number;
+}
+
+export function newRepetition(now = new Date()): RepetitionState {
+    return { due: now.toISOString(), intervalDays: 0, ease: INITIAL_EASE, streak: 0, attempts: 0, successes: 0 };
+}
+
+/**
+ * Schedules the next review: one day after the first success, three after the second,
+ * then growing by the ease factor. A failure starts over and lowers the ease.
+ */
+export function scheduleReview(state: RepetitionState, solved: boolean, now = new Date()): RepetitionState {
+    const attempts = state.attempts + 1;
+    if (!solved) {
+        return {
+            due: new Date(now.getTime() + RETRY_DELAY_MS).toISOString(),
+            intervalDays: 0,
+            ease: Math.max(MIN_EASE, state.ease - 0.2),
+            streak: 0,
+            attempts,
+            successes: state.successes,
+        };
+    }
+
+    const streak = state.streak + 1;
+    const intervalDays = streak === 1 ? 1 : streak === 2 ? 3 : Math.round(state.intervalDays * state.ease);
+    return {
+        due: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+        intervalDays,
+        ease: Math.min(MAX_EASE, state.ease + 0.1),
+        streak,
+        attempts,
+        successes: state.successes + 1,
+    };
+}
+
+export function isDue(state: RepetitionState, now = new Date()): boolean {
+    return new Date(state.due).getTime() <= now.getTime();
+}
@@ -0,0 +1,72 @@
+import { Chess } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { replayGame } from './chess960';
+import { acceptsDrawOffer, automaticOutcome, claimableDraw, describeOutcome, draw, savedOutcome, timeoutOutcome, win } from './result';
+
+const KNIGHT_DANCE = ['Nf3', 'Nf6', 'Ng1', 'Ng8', 'Nf3', 'Nf6', 'Ng1', 'Ng8'];
+
+describe('automaticOutcome', () => {
+    it('ends the game on checkmate, stalemate and insufficient material', () => {
+        expect(automaticOutcome(replayGame(new Chess().fen(), ['f3', 'e5', 'g4', 'Qh4#'])))
+            .toEqual({ result: '0-1', termination: 'checkmate', winner: 'b' });
+        expect(automaticOutcome(new Chess('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1'))).toEqual(draw('stalemate'));
+        expect(automaticOutcome(new Chess('8/8/8/8/8/8/8/KN5k w - - 0 1'))).toEqual(draw('insufficient-material'));
+        expect(automaticOutcome(new Chess())).toBeNull();
+    });
+
+    it('draws on the fifth repetition of the given positions', () => {
+        const game = new Chess();
+        expect(automaticOutcome(game, Array(4).fill(game.fen()))).toBeNull();
+        expect(automaticOutcome(game, Array(5).fill(game.fen()))).toEqual(draw('fivefold-repetition'));
+    });
+
+    it('draws after 75 moves without a capture or pawn move', () => {
+        expect(automaticOutcome(new Chess('8/8/8/8/8/8/R7/K6k w - - 149 100'))).toBeNull();
+        expect(automaticOutcome(new Chess('8/8/8/8/8/8/R7/K6k w - - 150 100'))).toEqual(draw('seventy-five-moves'));
+    });
+});
+
+describe('claimableDraw', () => {
+    it('offers a claim on the third repetition, read from the game\'s history', () => {
+        expect(claimableDraw(replayGame(new Chess().fen(), KNIGHT_DANCE.slice(0, 4)))).toBeNull();
+        expect(claimableDraw(replayGame(new Chess().fen(), KNIGHT_DANCE))).toBe('threefold-repetition');
+    });
+
+    it('offers a claim after 50 moves without a capture or pawn move', () => {
+        expect(claimableDraw(new Chess('8/8/8/8/8/8/R7/K6k w - - 99 80'))).toBeNull();
+        expect(claimableDraw(new Chess('8/8/8/8/8/8/R7/K6k w - - 100 80'))).toBe('fifty-moves');
+    });
+});
+
+describe('timeoutOutcome', () => {
+    it('is a loss for the flagged side unless the opponent cannot mate', () => {
+        expect(timeoutOutcome('w', '8/8/8/8/8/8/r7/K6k w - - 0 1')).toEqual(win('b', 'timeout'));
+        expect(timeoutOutcome('w', '8/8/8/8/8/8/R7/K6k w - - 0 1')).toEqual(draw('timeout-vs-insufficient-material'));
+    });
+});
+
+describe('savedOutcome', () => {
+    it('rebuilds the outcome of a finished game', () => {
+        expect(savedOutcome('1-0', 'resignation')).toEqual(win('w', 'resignation'));
+        expect(savedOutcome('1/2-1/2', 'agreement')).toEqual(draw('agreement'));
+        expect(savedOutcome('0-1', undefined)).toBeNull();
+        expect(savedOutcome('*', 'checkmate')).toBeNull();
+    });
+});
+
+describe('acceptsDrawOffer', () => {
+    it('accepts when mated or at most a quarter pawn better', () => {
+        expect(acceptsDrawOffer({ type: 'mate', value: -3 })).toBe(true);
+        expect(acceptsDrawOffer({ type: 'mate', value: 3 })).toBe(false);
+        expect(acceptsDrawOffer({ type: 'cp', value: 25 })).toBe(true);
+        expect(acceptsDrawOffer({ type: 'cp', value: 80 })).toBe(false);
+    });
+});
+
+describe('describeOutcome', () => {
+    it('names the winner and the loser', () => {
+        expect(describeOutcome(win('b', 'resignation'))).toBe('White resigns. Black wins! 🏳️');
+        expect(describeOutcome(win('w', 'timeout'))).toBe('Black ran out of time! White wins! ⏱️');
+        expect(describeOutcome(draw('stalemate'))).toBe('Stalemate! Game is drawn! 🤝');
+    });
+});
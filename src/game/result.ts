@@ -0,0 +1,167 @@
+import { Chess, Color } from 'chess.js';
+import { EngineScore } from '../engine';
+import { canCheckmate } from './clock';
+
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+/**
+ * Why a game ended. Checkmate, stalemate, insufficient material, fivefold repetition
+ * and the 75-move rule end it on the board; threefold repetition and the 50-move rule
+ * only when a player claims the draw.
+ */
+export type Termination =
+    | 'checkmate'
+    | 'stalemate'
+    | 'insufficient-material'
+    | 'fivefold-repetition'
+    | 'seventy-five-moves'
+    | 'threefold-repetition'
+    | 'fifty-moves'
+    | 'agreement'
+    | 'resignation'
+    | 'timeout'
+    | 'timeout-vs-insufficient-material';
+
+export type DrawClaim = 'threefold-repetition' | 'fifty-moves';
+
+export interface GameOutcome {
+    result: Exclude<GameResult, '*'>;
+    termination: Termination;
+    /** Side that won, or null for a draw. */
+    winner: Color | null;
+}
+
+/**
+ * An ending decided by the players rather than the board: a resignation, or a draw agreed
+ * or claimed, at the move tree node where the game stood. Taking moves back undoes it.
+ */
+export interface DeclaredOutcome {
+    nodeId: string;
+    outcome: GameOutcome;
+}
+
+/** Evaluation, in centipawns for the engine, up to which it takes a draw offer. */
+const DRAW_ACCEPT_MAX_CP = 25;
+/** Half-moves without a capture or pawn move after which a draw can be claimed. */
+const FIFTY_MOVES = 100;
+/** Half-moves without a capture or pawn move after which the game is drawn. */
+const SEVENTY_FIVE_MOVES = 150;
+
+const other = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+const colorName = (color: Color) => (color === 'w' ? 'White' : 'Black');
+/** The part of a FEN that decides whether positions repeat. */
+const positionKey = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+
+export function win(winner: Color, termination: Termination): GameOutcome {
+    return { result: winner === 'w' ? '1-0' : '0-1', termination, winner };
+}
+
+export function draw(termination: Termination): GameOutcome {
+    return { result: '1/2-1/2', termination, winner: null };
+}
+
+/**
+ * Outcome recorded with a saved game, or null when it was left unfinished.
+ */
+export function savedOutcome(result: GameResult, termination: Termination | undefined): GameOutcome | null {
+    if (result === '*' || !termination) return null;
+    if (result === '1/2-1/2') return draw(termination);
+    return win(result === '1-0' ? 'w' : 'b', termination);
+}
+
+/**
+ * Positions a replayed game went through, from its history.
+ */
+function positionsOf(game: Chess): string[] {
+    const history = game.history({ verbose: true });
+    return history.length > 0 ? [history[0].before, ...history.map((move) => move.after)] : [game.fen()];
+}
+
+/**
+ * How many times the last of `positions` has occurred in them.
+ */
+function repetitions(positions: string[]): number {
+    const current = positionKey(positions[positions.length - 1]);
+    return positions.filter((fen) => positionKey(fen) === current).length;
+}
+
+const halfMoveClock = (game: Chess) => Number(game.fen().split(' ')[4]) || 0;
+
+/**
+ * How the game has ended on the board, or null while it goes on. Draws that have to be
+ * claimed are left to `claimableDraw`. `positions` are the FENs from the start of the
+ * game up to `game`, read from its history when left out.
+ */
+export function automaticOutcome(game: Chess, positions = positionsOf(game)): GameOutcome | null {
+    if (game.isCheckmate()) return win(other(game.turn()), 'checkmate');
+    if (game.isStalemate()) return draw('stalemate');
+    if (game.isInsufficientMaterial()) return draw('insufficient-material');
+    if (repetitions(positions) >= 5) return draw('fivefold-repetition');
+    if (halfMoveClock(game) >= SEVENTY_FIVE_MOVES) return draw('seventy-five-moves');
+    return null;
+}
+
+/**
+ * A draw the side to move may claim, or null. `positions` are as in `automaticOutcome`.
+ */
+export function claimableDraw(game: Chess, positions = positionsOf(game)): DrawClaim | null {
+    if (repetitions(positions) >= 3) return 'threefold-repetition';
+    if (halfMoveClock(game) >= FIFTY_MOVES) return 'fifty-moves';
+    return null;
+}
+
+/**
+ * Outcome when `flagged` runs out of time in `fen`: a loss, unless the opponent has
+ * no material left to mate with.
+ */
+export function timeoutOutcome(flagged: Color, fen: string): GameOutcome {
+    const winner = other(flagged);
+    return canCheckmate(fen, winner) ? win(winner, 'timeout') : draw('timeout-vs-insufficient-material');
+}
+
+/**
+ * Whether an engine evaluating its own position at `score` takes a draw offer: when it
+ * is being mated, or is no more than a quarter pawn better.
+ */
+export function acceptsDrawOffer(score: EngineScore): boolean {
+    return score.type === 'mate' ? score.value < 0 : score.value <= DRAW_ACCEPT_MAX_CP;
+}
+
+/**
+ * Message announcing the end of the game.
+ */
+export function describeOutcome({ termination, winner }: GameOutcome): string {
+    const winnerName = winner ? colorName(winner) : '';
+    const loserName = winner ? colorName(other(winner)) : '';
+    switch (termination) {
+        case 'checkmate':
+            return `Checkmate! ${winnerName} wins! 🏆`;
+        case 'resignation':
+            return `${loserName} resigns. ${winnerName} wins! 🏳️`;
+        case 'timeout':
+            return `${loserName} ran out of time! ${winnerName} wins! ⏱️`;
+        case 'timeout-vs-insufficient-material':
+            return "Time out, but no mating material is left: it's a draw! 🤝";
+        case 'stalemate':
+            return 'Stalemate! Game is drawn! 🤝';
+        case 'insufficient-material':
+            return 'Draw by insufficient material! ⚖️';
+        case 'threefold-repetition':
+            return 'Draw by threefold repetition, claimed! 🔄';
+        case 'fivefold-repetition':
+            return 'Draw by fivefold repetition! 🔄';
+        case 'fifty-moves':
+            return 'Draw by the 50-move rule, claimed! 🤝';
+        case 'seventy-five-moves':
+            return 'Draw by the 75-move rule! 🤝';
+        case 'agreement':
+            return 'Draw agreed! 🤝';
+    }
+}
+
+/**
+ * Label of the button claiming a draw.
+ */
+export function describeClaim(claim: DrawClaim): string {
+    return claim === 'threefold-repetition' ? 'Claim draw (threefold repetition)' : 'Claim draw (50-move rule)';
+}
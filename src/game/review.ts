@@ -0,0 +1,145 @@
+import { Color } from 'chess.js';
+import { EngineProvider, EngineScore, toWhiteScore, uciToMove } from '../engine';
+import { loadChess, playMove, playSan } from './chess960';
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder' | 'missed-mate';
+
+export interface MoveReview {
+    /** 0-based index into the move history. */
+    ply: number;
+    /** Full move number, as printed in the game score. */
+    moveNumber: number;
+    san: string;
+    color: 'w' | 'b';
+    classification: MoveClassification;
+    /** White-relative evaluations of the positions before and after the move. */
+    evalBefore: EngineScore;
+    evalAfter: EngineScore;
+    /** Engine's preferred move in the position before, in SAN. */
+    bestMoveSan: string;
+    /** 0-100, how much of the mover's winning chances the move kept. */
+    accuracy: number;
+}
+
+export interface GameReview {
+    moves: MoveReview[];
+    accuracy: { w: number; b: number };
+}
+
+export interface ReviewOptions {
+    depth: number;
+    signal?: AbortSignal;
+    onProgress?: (analysed: number, total: number) => void;
+}
+
+interface PositionEvaluation {
+    /** Score for the side to move; `mate 0` when it is checkmated. */
+    score: EngineScore;
+    bestMove: string | null;
+    checkmated: boolean;
+}
+
+/** Mover's score after delivering checkmate, for accuracy and classification purposes. */
+const MATE_DELIVERED: EngineScore = { type: 'mate', value: 1 };
+
+/** Drop in winning chances (percentage points) from which a move gets each label. */
+const THRESHOLDS: [MoveClassification, number][] = [
+    ['blunder', 30],
+    ['mistake', 20],
+    ['inaccuracy', 10],
+];
+
+/**
+ * Winning chances in percent for the side the score belongs to.
+ */
+export function winPercent(score: EngineScore): number {
+    if (score.type === 'mate') return score.value > 0 ? 100 : 0;
+    return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * score.value)) - 1);
+}
+
+/**
+ * Accuracy of a single move from the drop in winning chances it caused.
+ */
+export function moveAccuracy(winBefore: number, winAfter: number): number {
+    const accuracy = 103.1668 * Math.exp(-0.04354 * Math.max(0, winBefore - winAfter)) - 3.1669;
+    return Math.min(100, Math.max(0, accuracy));
+}
+
+/**
+ * Labels a move from the mover's score before it (best play) and after it.
+ */
+export function classifyMove(before: EngineScore, after: EngineScore, playedBest: boolean): MoveClassification {
+    if (playedBest) return 'best';
+    if (before.type === 'mate' && before.value > 0 && !(after.type === 'mate' && after.value > 0)) {
+        return 'missed-mate';
+    }
+    const loss = winPercent(before) - winPercent(after);
+    return THRESHOLDS.find(([, threshold]) => loss >= threshold)?.[0] ?? 'good';
+}
+
+const negate = (score: EngineScore): EngineScore => ({ type: score.type, value: -score.value });
+
+/**
+ * Evaluates a position, answering finished games without asking the engine:
+ * the side to move is mated (`mate 0`) or it is a draw.
+ */
+async function evaluatePosition(engine: EngineProvider, fen: string, depth: number, signal?: AbortSignal): Promise<PositionEvaluation> {
+    const position = loadChess(fen);
+    if (position.isCheckmate()) return { score: { type: 'mate', value: 0 }, bestMove: null, checkmated: true };
+    if (position.isGameOver()) return { score: { type: 'cp', value: 0 }, bestMove: null, checkmated: false };
+
+    const result = await engine.analyse(fen, { depth, multiPv: 1, signal });
+    return {
+        score: result.lines[0]?.score ?? { type: 'cp', value: 0 },
+        bestMove: result.bestMove,
+        checkmated: false,
+    };
+}
+
+/**
+ * Analyses every position of a game and classifies each move.
+ *
+ * @param positions - FEN before the first move followed by the FEN after every move.
+ * @param moveHistory - The moves in SAN, one fewer than `positions`.
+ */
+export async function reviewGame(
+    engine: EngineProvider,
+    positions: string[],
+    moveHistory: string[],
+    { depth, signal, onProgress }: ReviewOptions
+): Promise<GameReview> {
+    const evaluations: PositionEvaluation[] = [];
+    for (const fen of positions) {
+        evaluations.push(await evaluatePosition(engine, fen, depth, signal));
+        onProgress?.(evaluations.length, positions.length);
+    }
+
+    const moves = moveHistory.map((san, ply): MoveReview => {
+        const fenBefore = positions[ply];
+        const played = playSan(fenBefore, san);
+        const [, color, , , , fullMove] = fenBefore.split(' ');
+        const { score: moverBefore, bestMove } = evaluations[ply];
+        const after = evaluations[ply + 1];
+        // The position after the move is scored for the opponent; flip it back to the mover.
+        const moverAfter = after.checkmated ? MATE_DELIVERED : negate(after.score);
+        const bestMoveSan = bestMove ? playMove(fenBefore, uciToMove(bestMove)).san : san;
+
+        return {
+            ply,
+            moveNumber: Number(fullMove),
+            san,
+            color: color as Color,
+            classification: classifyMove(moverBefore, moverAfter, bestMove === played.uci),
+            evalBefore: toWhiteScore(moverBefore, fenBefore),
+            evalAfter: toWhiteScore(after.score, positions[ply + 1]),
+            bestMoveSan,
+            accuracy: moveAccuracy(winPercent(moverBefore), winPercent(moverAfter)),
+        };
+    });
+
+    const average = (color: 'w' | 'b') => {
+        const own = moves.filter((move) => move.color === color);
+        return own.length ? own.reduce((sum, move) => sum + move.accuracy, 0) / own.length : 100;
+    };
+    return { moves, accuracy: { w: average('w'), b: average('b') } };
+}
@@ -0,0 +1,174 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { MockEngine } from '../engine/mockEngine';
+import { playSan } from './chess960';
+import { TimeControl } from './clock';
+import { PlayerModeId } from './players';
+import { win } from './result';
+import {
+    chooseEngineMove,
+    createGameSession,
+    GameSession,
+    gameSessionReducer,
+    isAutoMoveDue,
+    viewSession
+} from './session';
+
+const BLITZ: TimeControl = { baseMs: 60000, incrementMs: 2000, delayMs: 0 };
+
+function startGame(mode: PlayerModeId = 'companion', timeControl: TimeControl | null = null): GameSession {
+    const session = gameSessionReducer(createGameSession('game'), { type: 'set-mode', mode });
+    return gameSessionReducer(session, { type: 'start', color: 'w', startFen: DEFAULT_POSITION, timeControl, gameId: 'game' });
+}
+
+const fenOf = (session: GameSession, nodeId = session.moveTree.currentId) => session.moveTree.nodes[nodeId].fen;
+
+/** Plays SAN moves by hand on the board, one after the other. */
+function playMoves(session: GameSession, moves: string[], now = 0): GameSession {
+    return moves.reduce((current, san) =>
+        gameSessionReducer(current, { type: 'manual-move', move: playSan(fenOf(current), san), now }), session);
+}
+
+describe('gameSessionReducer', () => {
+    it('starts a game from the given position', () => {
+        const session = startGame('companion', BLITZ);
+        const view = viewSession(session);
+
+        expect(session.playerColor).toBe('w');
+        expect(session.clock?.remaining).toEqual({ w: 60000, b: 60000 });
+        expect(view.moveHistory).toEqual([]);
+        expect(view.isLive).toBe(true);
+        expect(view.autoColors).toEqual(['w']);
+        expect(view.liveOutcome).toBeNull();
+    });
+
+    it('plays a move by hand and makes it live', () => {
+        const session = playMoves(startGame('hotseat'), ['e4', 'e5']);
+        const view = viewSession(session);
+
+        expect(view.moveHistory).toEqual(['e4', 'e5']);
+        expect(session.moveTree.currentId).toBe(session.moveTree.liveId);
+        expect(view.liveGame.turn()).toBe('w');
+    });
+
+    it('adds the engine move at the node it was computed for', () => {
+        const session = startGame();
+        const nodeId = session.moveTree.liveId;
+        const next = gameSessionReducer(session, { type: 'engine-move', nodeId, move: playSan(fenOf(session), 'd4'), now: 0 });
+
+        expect(viewSession(next).moveHistory).toEqual(['d4']);
+        expect(next.moveTree.nodes[nodeId].children).toEqual([next.moveTree.liveId]);
+    });
+
+    it('presses the clock with the increment on every move', () => {
+        let session = gameSessionReducer(startGame('hotseat', BLITZ), { type: 'sync-clock', now: 0, active: true });
+        expect(session.clock?.running).toBe('w');
+
+        session = playMoves(session, ['e4'], 5000);
+        expect(session.clock?.remaining.w).toBe(57000);
+        expect(session.clock?.running).toBe('b');
+    });
+
+    it('presses the clock for a move played while browsing an earlier position', () => {
+        let session = gameSessionReducer(startGame('hotseat', BLITZ), { type: 'sync-clock', now: 0, active: true });
+        session = playMoves(session, ['e4', 'e5', 'Nf3'], 0);
+        session = gameSessionReducer(session, { type: 'go-to', nodeId: session.moveTree.nodes[session.moveTree.liveId].parentId as string });
+        session = playMoves(session, ['Nc3'], 4000);
+
+        expect(viewSession(session).moveHistory).toEqual(['e4', 'e5', 'Nc3']);
+        // Black's clock ran until Nc3, which earns White another increment.
+        expect(session.clock?.remaining).toEqual({ w: 66000, b: 58000 });
+        expect(session.clock?.running).toBe('b');
+        expect(session.clock?.startedAt).toBe(4000);
+    });
+
+    it('takes moves back, pausing the engine on its turn, and redoes them', () => {
+        const afterE4 = playMoves(startGame(), ['e4']);
+        const played = playMoves(afterE4, ['e5', 'Nf3']);
+        const takenBack = gameSessionReducer(played, { type: 'take-back', plies: 2 });
+
+        expect(takenBack.moveTree.liveId).toBe(afterE4.moveTree.liveId);
+        expect(takenBack.autoPaused).toBe(false);
+        expect(viewSession(takenBack).canRedo).toBe(true);
+
+        const toStart = gameSessionReducer(takenBack, { type: 'take-back', plies: 1 });
+        expect(toStart.moveTree.liveId).toBe(toStart.moveTree.rootId);
+        expect(viewSession(toStart).moveHistory).toEqual(['e4', 'e5', 'Nf3']);
+        expect(toStart.autoPaused).toBe(true);
+
+        const redone = gameSessionReducer(toStart, { type: 'redo' });
+        expect(redone.moveTree.liveId).toBe(afterE4.moveTree.liveId);
+        expect(redone.autoPaused).toBe(false);
+    });
+
+    it('keeps a declared result only where the game stood', () => {
+        const session = playMoves(startGame(), ['e4']);
+        const declared = gameSessionReducer(session, { type: 'declare', nodeId: session.moveTree.liveId, outcome: win('w', 'resignation') });
+        expect(viewSession(declared).liveOutcome).toEqual({ result: '1-0', termination: 'resignation', winner: 'w' });
+
+        const stale = gameSessionReducer(session, { type: 'declare', nodeId: session.moveTree.rootId, outcome: win('w', 'resignation') });
+        expect(stale).toBe(session);
+
+        const takenBack = gameSessionReducer(declared, { type: 'take-back', plies: 1 });
+        expect(viewSession(takenBack).liveOutcome).toBeNull();
+    });
+
+    it('flags the side whose time runs out on a tick', () => {
+        let session = gameSessionReducer(startGame('hotseat', BLITZ), { type: 'sync-clock', now: 0, active: true });
+        session = gameSessionReducer(session, { type: 'tick', now: 30000 });
+        expect(session.clock?.flagged).toBeNull();
+
+        session = gameSessionReducer(session, { type: 'tick', now: 60000 });
+        expect(session.clock?.flagged).toBe('w');
+        expect(session.clock?.running).toBeNull();
+        expect(viewSession(session).liveOutcome).toEqual({ result: '0-1', termination: 'timeout', winner: 'b' });
+    });
+});
+
+describe('isAutoMoveDue', () => {
+    it('is due on the engine side\'s turn where the game stands', () => {
+        const session = startGame();
+        expect(isAutoMoveDue(session, viewSession(session))).toBe(true);
+
+        const moved = playMoves(session, ['e4']);
+        expect(isAutoMoveDue(moved, viewSession(moved))).toBe(false);
+    });
+
+    it('waits while paused, browsing or after the game has ended', () => {
+        const paused = gameSessionReducer(startGame(), { type: 'pause' });
+        expect(isAutoMoveDue(paused, viewSession(paused))).toBe(false);
+
+        const played = playMoves(startGame('hotseat'), ['e4', 'e5']);
+        const browsing = gameSessionReducer(gameSessionReducer(played, { type: 'set-mode', mode: 'companion' }), { type: 'go-to', nodeId: played.moveTree.rootId });
+        expect(isAutoMoveDue(browsing, viewSession(browsing))).toBe(false);
+
+        const mated = playMoves(startGame('hotseat'), ['f3', 'e5', 'g4', 'Qh4#']);
+        const companion = gameSessionReducer(mated, { type: 'set-mode', mode: 'companion' });
+        expect(viewSession(companion).liveOutcome?.termination).toBe('checkmate');
+        expect(isAutoMoveDue(companion, viewSession(companion))).toBe(false);
+    });
+
+    it('is never due in a game between two people', () => {
+        const session = startGame('hotseat');
+        expect(isAutoMoveDue(session, viewSession(session))).toBe(false);
+    });
+});
+
+describe('chooseEngineMove', () => {
+    it('plays an engine vs engine game to its end', async () => {
+        const engine = new MockEngine();
+        const signal = new AbortController().signal;
+        let session = startGame('engine-vs-engine');
+
+        for (let ply = 0; ply < 1000 && isAutoMoveDue(session, viewSession(session)); ply++) {
+            const nodeId = session.moveTree.liveId;
+            const move = await chooseEngineMove(engine, session, { useBook: false, useClock: false, signal });
+            session = gameSessionReducer(session, { type: 'engine-move', nodeId, move, now: 0 });
+        }
+
+        const outcome = viewSession(session).liveOutcome;
+        expect(outcome).not.toBeNull();
+        expect(['checkmate', 'stalemate', 'insufficient-material', 'fivefold-repetition', 'seventy-five-moves'])
+            .toContain(outcome?.termination);
+    });
+});
@@ -0,0 +1,341 @@
+import { Chess, Color, DEFAULT_POSITION } from 'chess.js';
+import {
+    chooseMove,
+    DEFAULT_STRENGTH_PROFILE_ID,
+    EngineProvider,
+    getStrengthProfile,
+    StrengthProfile,
+    uciToMove
+} from '../engine';
+import { LegalMove, loadChess, playMove, playSan } from './chess960';
+import { ClockState, createClock, pressClock, startClock, stopClock, thinkingTime, timeLeft, TimeControl } from './clock';
+import {
+    activeLine,
+    addMove,
+    createMoveTree,
+    deleteVariation,
+    goToNode,
+    MoveNode,
+    MoveTree,
+    moveTreeFromLine,
+    pathTo,
+    playFrom,
+    promoteVariation,
+    redo,
+    takeBack
+} from './moveTree';
+import { pickBookMove } from './openings';
+import { DEFAULT_PLAYER_MODE, engineSides, PlayerModeId } from './players';
+import {
+    acceptsDrawOffer,
+    automaticOutcome,
+    claimableDraw,
+    DeclaredOutcome,
+    DrawClaim,
+    GameOutcome,
+    timeoutOutcome
+} from './result';
+
+/** Extra time the engine gets to answer beyond its clock budget before the request times out. */
+const CLOCK_TIMEOUT_MARGIN_MS = 5000;
+/** Search depth of the engine weighing up a draw offer. */
+const DRAW_OFFER_DEPTH = 14;
+
+/**
+ * Everything that decides how a game goes on: its moves, who plays which side, the
+ * clocks and how it ended. Changed only through `gameSessionReducer`, so the same
+ * rules apply whether moves come from the board, the engine or a test.
+ */
+export interface GameSession {
+    moveTree: MoveTree;
+    /** Side picked on the start screen: the engine's in companion mode, the one at the bottom of the board otherwise. Null before a game starts. */
+    playerColor: Color | null;
+    mode: PlayerModeId;
+    strengthId: string;
+    /** Strength of the engine playing the other side in engine vs engine games. */
+    opponentStrengthId: string;
+    clock: ClockState | null;
+    /** Resignation or agreed or claimed draw, at the live node it happened on. */
+    declaredOutcome: DeclaredOutcome | null;
+    /** Set by takebacks landing on the auto side's turn, so it does not replay the move straight away. */
+    autoPaused: boolean;
+    /** Library id the game is stored under once it ends; kept across takebacks so a game is saved once. */
+    gameId: string;
+}
+
+export type GameSessionAction =
+    | { type: 'start'; color: Color; startFen: string; timeControl: TimeControl | null; gameId: string }
+    /** A game read from PGN, continued without clocks. */
+    | { type: 'import'; startFen: string; moveHistory: string[]; gameId: string }
+    /** A restored or reopened session, replacing the current one. */
+    | { type: 'load'; session: GameSession }
+    /** Back to the start screen. */
+    | { type: 'leave' }
+    /** A move entered by hand in the position on the board, resuming the game from there. */
+    | { type: 'manual-move'; move: LegalMove; now: number }
+    /** The auto side's move, for the position it was computed in. */
+    | { type: 'engine-move'; nodeId: string; move: LegalMove; now: number }
+    | { type: 'take-back'; plies: number }
+    | { type: 'redo' }
+    | { type: 'play-from-here' }
+    | { type: 'pause' }
+    | { type: 'go-to'; nodeId: string }
+    | { type: 'promote-variation'; nodeId: string }
+    | { type: 'delete-variation'; nodeId: string }
+    /** Ends the game by resignation, agreement or a claim, if it still stands at `nodeId`. */
+    | { type: 'declare'; nodeId: string; outcome: GameOutcome }
+    | { type: 'set-mode'; mode: PlayerModeId }
+    | { type: 'set-strength'; strengthId: string }
+    | { type: 'set-opponent-strength'; strengthId: string }
+    /** Runs the clock of the side to move, or stops it while `active` is false or the game is over or paused. */
+    | { type: 'sync-clock'; now: number; active: boolean }
+    /** Notes a flag fall once the running side's time is up. */
+    | { type: 'tick'; now: number };
+
+/**
+ * What a session looks like from the board: the line shown and where the game stands.
+ */
+export interface SessionView {
+    /** The line through the node on the board, as in `activeLine`. */
+    line: MoveNode[];
+    positions: string[];
+    moveHistory: string[];
+    currentMoveIndex: number;
+    currentNode: MoveNode;
+    /** Whether the board shows where the game stands, rather than a position being browsed. */
+    isLive: boolean;
+    canRedo: boolean;
+    game: Chess;
+    liveGame: Chess;
+    /** Sides the engine moves for; the others are moved by hand. */
+    autoColors: Color[];
+    engineProfiles: Partial<Record<Color, StrengthProfile>>;
+    /** How the game has ended, if it has: on the clock, by the players' decision, or on the board. */
+    liveOutcome: GameOutcome | null;
+    /** Ending shown with the position on the board; a browsed position only has the one on the board. */
+    outcome: GameOutcome | null;
+    /** Draw the side to move may claim where the game stands. */
+    drawClaim: DrawClaim | null;
+    /** Side resigning or offering a draw: whoever moves by hand, the side to move when both do. */
+    actingSide: Color | null;
+}
+
+const other = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+
+export function createGameSession(gameId: string, strengthId = DEFAULT_STRENGTH_PROFILE_ID): GameSession {
+    return {
+        moveTree: createMoveTree(DEFAULT_POSITION),
+        playerColor: null,
+        mode: DEFAULT_PLAYER_MODE,
+        strengthId,
+        opponentStrengthId: strengthId,
+        clock: null,
+        declaredOutcome: null,
+        autoPaused: false,
+        gameId,
+    };
+}
+
+export function autoColorsOf(session: GameSession): Color[] {
+    return session.playerColor ? engineSides(session.mode, session.playerColor) : [];
+}
+
+export function isManualSide(session: GameSession, color: Color): boolean {
+    return session.playerColor !== null && !autoColorsOf(session).includes(color);
+}
+
+const turnAt = (tree: MoveTree, nodeId: string): Color => (tree.nodes[nodeId].fen.split(' ')[1] === 'b' ? 'b' : 'w');
+
+/**
+ * Moves the game back or forward, leaving the auto side waiting if it lands on its turn.
+ */
+function moveLive(session: GameSession, moveTree: MoveTree): GameSession {
+    return { ...session, moveTree, autoPaused: autoColorsOf(session).includes(turnAt(moveTree, moveTree.liveId)) };
+}
+
+/**
+ * Adds a move after `nodeId`. When the game goes on from there, the running clock is
+ * pressed for the side that moved, even if the move was played from an earlier position.
+ */
+function addPlayedMove(session: GameSession, tree: MoveTree, nodeId: string, move: LegalMove, now: number): GameSession {
+    const { clock } = session;
+    const pressed = clock?.running && nodeId === tree.liveId
+        ? pressClock(startClock(clock, turnAt(tree, nodeId), now), now)
+        : clock;
+    return { ...session, moveTree: addMove(tree, nodeId, move.san, move.after), clock: pressed };
+}
+
+/**
+ * The position at `nodeId` and the positions leading to it, read from the tree rather
+ * than replayed move by move.
+ */
+function positionAt(tree: MoveTree, nodeId: string): { game: Chess; positions: string[] } {
+    const positions = pathTo(tree, nodeId).map((node) => node.fen);
+    return { game: loadChess(positions[positions.length - 1]), positions };
+}
+
+function liveOutcomeOf(session: GameSession, live: { game: Chess; positions: string[] }): GameOutcome | null {
+    const { moveTree, clock, declaredOutcome } = session;
+    if (clock?.flagged) return timeoutOutcome(clock.flagged, moveTree.nodes[moveTree.liveId].fen);
+    if (declaredOutcome?.nodeId === moveTree.liveId) return declaredOutcome.outcome;
+    return automaticOutcome(live.game, live.positions);
+}
+
+export function gameSessionReducer(session: GameSession, action: GameSessionAction): GameSession {
+    const { moveTree } = session;
+    switch (action.type) {
+        case 'start':
+            return {
+                ...session,
+                moveTree: createMoveTree(action.startFen),
+                playerColor: action.color,
+                clock: action.timeControl ? createClock(action.timeControl) : null,
+                declaredOutcome: null,
+                autoPaused: false,
+                gameId: action.gameId,
+            };
+        case 'import':
+            return {
+                ...session,
+                moveTree: moveTreeFromLine(action.startFen, action.moveHistory),
+                clock: null,
+                declaredOutcome: null,
+                autoPaused: false,
+                gameId: action.gameId,
+            };
+        case 'load':
+            return action.session;
+        case 'leave':
+            return { ...session, playerColor: null, autoPaused: false };
+        case 'manual-move':
+            return {
+                ...addPlayedMove(session, playFrom(moveTree, moveTree.currentId), moveTree.currentId, action.move, action.now),
+                autoPaused: false,
+            };
+        case 'engine-move':
+            return addPlayedMove(session, moveTree, action.nodeId, action.move, action.now);
+        case 'take-back':
+            return moveTree.liveId === moveTree.rootId ? session : moveLive(session, takeBack(moveTree, action.plies));
+        case 'redo':
+            return moveTree.nodes[moveTree.liveId].children.length === 0 ? session : moveLive(session, redo(moveTree));
+        case 'play-from-here':
+            return { ...session, moveTree: playFrom(moveTree, moveTree.currentId), autoPaused: false };
+        case 'pause':
+            return { ...session, autoPaused: true };
+        case 'go-to':
+            return { ...session, moveTree: goToNode(moveTree, action.nodeId) };
+        case 'promote-variation':
+            return { ...session, moveTree: promoteVariation(moveTree, action.nodeId) };
+        case 'delete-variation':
+            return { ...session, moveTree: deleteVariation(moveTree, action.nodeId) };
+        case 'declare':
+            if (action.nodeId !== moveTree.liveId) return session;
+            return { ...session, declaredOutcome: { nodeId: action.nodeId, outcome: action.outcome } };
+        case 'set-mode':
+            return { ...session, mode: action.mode };
+        case 'set-strength':
+            return { ...session, strengthId: action.strengthId };
+        case 'set-opponent-strength':
+            return { ...session, opponentStrengthId: action.strengthId };
+        case 'sync-clock': {
+            if (!session.clock) return session;
+            const running = action.active && !session.autoPaused
+                && liveOutcomeOf(session, positionAt(moveTree, moveTree.liveId)) === null;
+            const clock = running
+                ? startClock(session.clock, turnAt(moveTree, moveTree.liveId), action.now)
+                : stopClock(session.clock, action.now);
+            return clock === session.clock ? session : { ...session, clock };
+        }
+        case 'tick': {
+            const { clock } = session;
+            if (!clock?.running || timeLeft(clock, clock.running, action.now) > 0) return session;
+            return { ...session, clock: stopClock(clock, action.now) };
+        }
+    }
+}
+
+export function viewSession(session: GameSession): SessionView {
+    const { moveTree, playerColor, mode, strengthId, opponentStrengthId } = session;
+    const line = activeLine(moveTree);
+    const currentNode = moveTree.nodes[moveTree.currentId];
+    const isLive = moveTree.currentId === moveTree.liveId;
+    const live = positionAt(moveTree, moveTree.liveId);
+    const current = isLive ? live : positionAt(moveTree, moveTree.currentId);
+    const { game } = current;
+    const liveGame = live.game;
+    const autoColors = autoColorsOf(session);
+    const liveOutcome = liveOutcomeOf(session, live);
+    const liveTurn = liveGame.turn();
+    return {
+        line,
+        positions: line.map((node) => node.fen),
+        moveHistory: line.slice(1).map((node) => node.san as string),
+        currentMoveIndex: line.findIndex((node) => node.id === moveTree.currentId),
+        currentNode,
+        isLive,
+        canRedo: moveTree.nodes[moveTree.liveId].children.length > 0,
+        game,
+        liveGame,
+        autoColors,
+        engineProfiles: Object.fromEntries(autoColors.map((color) => [
+            color,
+            getStrengthProfile(mode === 'engine-vs-engine' && color !== playerColor ? opponentStrengthId : strengthId),
+        ])),
+        liveOutcome,
+        outcome: isLive || session.clock?.flagged ? liveOutcome : automaticOutcome(game, current.positions),
+        drawClaim: isLive && !liveOutcome ? claimableDraw(liveGame, live.positions) : null,
+        actingSide: playerColor === null || autoColors.length === 2
+            ? null
+            : isManualSide(session, liveTurn) ? liveTurn : other(liveTurn),
+    };
+}
+
+/**
+ * Whether the auto side is to move where the game stands and may do so now.
+ */
+export function isAutoMoveDue(session: GameSession, view: SessionView): boolean {
+    return view.isLive
+        && !session.autoPaused
+        && view.liveOutcome === null
+        && view.autoColors.includes(view.liveGame.turn());
+}
+
+export interface EngineMoveOptions {
+    /** Whether the engine plays from the opening book while it can. */
+    useBook: boolean;
+    /** Whether the engine budgets its time from the clock rather than its strength profile. */
+    useClock: boolean;
+    signal: AbortSignal;
+}
+
+/**
+ * The auto side's move where the game stands: a book move, or the engine's choice at
+ * the side's strength.
+ */
+export async function chooseEngineMove(engine: EngineProvider, session: GameSession, { useBook, useClock, signal }: EngineMoveOptions): Promise<LegalMove> {
+    const view = viewSession(session);
+    const fen = view.liveGame.fen();
+    const turn = view.liveGame.turn();
+    const bookMove = useBook ? pickBookMove(fen) : null;
+    if (bookMove) return playSan(fen, bookMove);
+
+    const profile = view.engineProfiles[turn] ?? getStrengthProfile(session.strengthId);
+    const budget = session.clock && useClock ? thinkingTime(session.clock, turn, Date.now()) : null;
+    const bestMove = await chooseMove(engine, fen, profile, budget
+        ? { signal, limits: { movetime: budget }, timeoutMs: budget + CLOCK_TIMEOUT_MARGIN_MS }
+        : { signal });
+    return playMove(fen, uciToMove(bestMove));
+}
+
+/**
+ * Whether the engine takes a draw offered to `receiver` where the game stands, judging
+ * by its own evaluation.
+ */
+export async function answerDrawOffer(engine: EngineProvider, session: GameSession, receiver: Color, signal: AbortSignal): Promise<boolean> {
+    const fen = session.moveTree.nodes[session.moveTree.liveId].fen;
+    const { lines } = await engine.analyse(fen, { depth: DRAW_OFFER_DEPTH, signal });
+    if (!lines[0]) return false;
+    // The score is for the side to move, which is not the engine when the offer comes with a move pending.
+    const { score } = lines[0];
+    return acceptsDrawOffer(turnAt(session.moveTree, session.moveTree.liveId) === receiver ? score : { ...score, value: -score.value });
+}
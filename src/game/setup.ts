@@ -0,0 +1,128 @@
+import { Chess, Color, PieceSymbol, Square, validateFen } from 'chess.js';
+
+/** Piece codes as used by react-chessboard, e.g. `wK` or `bP`. */
+export type BoardPiece = `${Color}${Uppercase<PieceSymbol>}`;
+export type BoardPlacement = Partial<Record<Square, BoardPiece>>;
+
+export type CastlingRight = 'K' | 'Q' | 'k' | 'q';
+
+export interface PositionSetup {
+    placement: BoardPlacement;
+    turn: Color;
+    castling: CastlingRight[];
+    enPassant: Square | null;
+}
+
+const FILES = 'abcdefgh';
+const CASTLING_ORDER: CastlingRight[] = ['K', 'Q', 'k', 'q'];
+/** King and rook squares each castling right depends on. */
+const CASTLING_SQUARES: Record<CastlingRight, { king: Square; rook: Square; color: Color }> = {
+    K: { king: 'e1', rook: 'h1', color: 'w' },
+    Q: { king: 'e1', rook: 'a1', color: 'w' },
+    k: { king: 'e8', rook: 'h8', color: 'b' },
+    q: { king: 'e8', rook: 'a8', color: 'b' },
+};
+
+/**
+ * Reads the placement, side to move, castling rights and en passant square of a FEN.
+ * The FEN is not validated beyond what is needed to read it.
+ */
+export function parseSetupFen(fen: string): PositionSetup {
+    const [board = '', turn = 'w', castling = '-', enPassant = '-'] = fen.trim().split(/\s+/);
+    const placement: BoardPlacement = {};
+    board.split('/').forEach((row, rowIndex) => {
+        let file = 0;
+        for (const char of row) {
+            if (/\d/.test(char)) {
+                file += Number(char);
+            } else {
+                const color = char === char.toUpperCase() ? 'w' : 'b';
+                const square = `${FILES[file]}${8 - rowIndex}` as Square;
+                placement[square] = `${color}${char.toUpperCase()}` as BoardPiece;
+                file += 1;
+            }
+        }
+    });
+
+    return {
+        placement,
+        turn: turn === 'b' ? 'b' : 'w',
+        castling: CASTLING_ORDER.filter((right) => castling.includes(right)),
+        enPassant: enPassant === '-' ? null : enPassant as Square,
+    };
+}
+
+/**
+ * Serialises a setup into a FEN, starting with a fresh move counter.
+ */
+export function buildSetupFen({ placement, turn, castling, enPassant }: PositionSetup): string {
+    const rows: string[] = [];
+    for (let rank = 8; rank >= 1; rank--) {
+        let row = '';
+        let empty = 0;
+        for (const file of FILES) {
+            const piece = placement[`${file}${rank}` as Square];
+            if (!piece) {
+                empty += 1;
+                continue;
+            }
+            if (empty) row += empty;
+            empty = 0;
+            row += piece[0] === 'w' ? piece[1] : piece[1].toLowerCase();
+        }
+        rows.push(empty ? row + empty : row);
+    }
+
+    const rights = CASTLING_ORDER.filter((right) => castling.includes(right)).join('');
+    return `${rows.join('/')} ${turn} ${rights || '-'} ${enPassant ?? '-'} 0 1`;
+}
+
+/**
+ * Castling rights that are possible given where the kings and rooks stand.
+ */
+export function availableCastlingRights(placement: BoardPlacement): CastlingRight[] {
+    return CASTLING_ORDER.filter((right) => {
+        const { king, rook, color } = CASTLING_SQUARES[right];
+        return placement[king] === `${color}K` && placement[rook] === `${color}R`;
+    });
+}
+
+/**
+ * Squares that can be given as en passant target: a pawn of the side that just moved
+ * stands right in front of it, and both it and the pawn's starting square are empty.
+ */
+export function availableEnPassantSquares(placement: BoardPlacement, turn: Color): Square[] {
+    const mover = turn === 'w' ? 'b' : 'w';
+    const [targetRank, pawnRank, originRank] = turn === 'w' ? [6, 5, 7] : [3, 4, 2];
+    return FILES.split('')
+        .filter((file) =>
+            placement[`${file}${pawnRank}` as Square] === `${mover}P` &&
+            !placement[`${file}${targetRank}` as Square] &&
+            !placement[`${file}${originRank}` as Square])
+        .map((file) => `${file}${targetRank}` as Square);
+}
+
+/**
+ * Checks that a FEN describes a position a game can continue from.
+ *
+ * @returns A user-facing error message, or null when the position is playable.
+ */
+export function validateSetupFen(fen: string): string | null {
+    const { ok, error } = validateFen(fen);
+    if (!ok) return (error ?? 'Invalid FEN').replace(/^Invalid FEN: /, '');
+
+    const setup = parseSetupFen(fen);
+    const allowedCastling = availableCastlingRights(setup.placement);
+    const badRight = setup.castling.find((right) => !allowedCastling.includes(right));
+    if (badRight) return `castling right "${badRight}" needs the king and rook on their starting squares`;
+
+    if (setup.enPassant && !availableEnPassantSquares(setup.placement, setup.turn).includes(setup.enPassant)) {
+        return `no pawn can be captured en passant on ${setup.enPassant}`;
+    }
+
+    const opponentToMove = buildSetupFen({ ...setup, turn: setup.turn === 'w' ? 'b' : 'w', enPassant: null });
+    if (new Chess(opponentToMove).isCheck()) {
+        return `${setup.turn === 'w' ? 'Black' : 'White'} is in check but it is not their move`;
+    }
+    return null;
+}
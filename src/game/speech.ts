@@ -0,0 +1,64 @@
+import { Chess, Color, PieceSymbol, Square } from 'chess.js';
+import { loadChess } from './chess960';
+
+const PIECE_NAMES: Record<PieceSymbol, string> = { k: 'king', q: 'queen', r: 'rook', b: 'bishop', n: 'knight', p: 'pawn' };
+const PIECE_ORDER: PieceSymbol[] = ['k', 'q', 'r', 'b', 'n', 'p'];
+const SAN_PATTERN = /^([KQRBN])?([a-h])?([1-8])?(x)?([a-h][1-8])(?:=([QRBN]))?/;
+
+const colorName = (color: Color) => (color === 'w' ? 'White' : 'Black');
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/** Joins names as in speech: `a, b and c`. */
+function listOf(items: string[]): string {
+    return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+/**
+ * A SAN move as it would be read aloud, e.g. `Nxe5+` as `Knight takes e5, check` and
+ * `exd8=Q` as `e pawn takes d8, promotes to queen`. Unknown text is returned as it is.
+ */
+export function speakMove(san: string): string {
+    const ending = san.includes('#') ? ', checkmate' : san.includes('+') ? ', check' : '';
+    if (san.startsWith('O-O-O')) return `Castles queenside${ending}`;
+    if (san.startsWith('O-O')) return `Castles kingside${ending}`;
+    const match = SAN_PATTERN.exec(san);
+    if (!match) return san;
+    const [, piece, fromFile, fromRank, capture, to, promotion] = match;
+    const words = piece
+        ? [capitalize(PIECE_NAMES[piece.toLowerCase() as PieceSymbol]), `${fromFile ?? ''}${fromRank ?? ''}`]
+        : [capture ? `${fromFile} pawn` : 'Pawn'];
+    words.push(capture ? `takes ${to}` : `to ${to}`);
+    const promotes = promotion ? `, promotes to ${PIECE_NAMES[promotion.toLowerCase() as PieceSymbol]}` : '';
+    return `${words.filter(Boolean).join(' ')}${promotes}${ending}`;
+}
+
+/**
+ * A move announced with the side that played it, e.g. `Black: Knight takes e5, check`.
+ */
+export function announceMove(san: string, color: Color): string {
+    return `${colorName(color)}: ${speakMove(san)}`;
+}
+
+/**
+ * What stands on a square of `board`, e.g. `e4, white knight` or `e4, empty`.
+ */
+export function describeSquare(board: Chess, square: Square): string {
+    const piece = board.get(square);
+    return piece ? `${square}, ${piece.color === 'w' ? 'white' : 'black'} ${PIECE_NAMES[piece.type]}` : `${square}, empty`;
+}
+
+/**
+ * Where the pieces of one side stand, most valuable first, e.g.
+ * `White: king g1, queen d1, rooks a1 and f1, pawns f2, g2 and h2`.
+ */
+export function describePieces(fen: string, color: Color): string {
+    const squares = new Map<PieceSymbol, Square[]>();
+    for (const piece of loadChess(fen).board().flat()) {
+        if (piece?.color === color) squares.set(piece.type, [...(squares.get(piece.type) ?? []), piece.square]);
+    }
+    const groups = PIECE_ORDER.filter((type) => squares.has(type)).map((type) => {
+        const list = (squares.get(type) as Square[]).sort();
+        return `${PIECE_NAMES[type]}${list.length > 1 ? 's' : ''} ${listOf(list)}`;
+    });
+    return `${colorName(color)}: ${groups.join(', ')}`;
+}
@@ -0,0 +1,21 @@
+import { useCallback, useState } from 'react';
+
+export interface Announcer {
+    /** Text for an `aria-live` region; it changes with every announcement, even a repeated one. */
+    message: string;
+    announce: (text: string) => void;
+}
+
+/**
+ * Messages for screen readers. Live regions only speak when their text changes, so
+ * every other message ends in a no-break space to repeat the same words.
+ */
+export function useAnnouncer(): Announcer {
+    const [state, setState] = useState({ text: '', count: 0 });
+
+    const announce = useCallback((text: string) => {
+        setState((prev) => ({ text, count: prev.count + 1 }));
+    }, []);
+
+    return { message: state.count % 2 ? state.text : `${state.text}\u00A0`, announce };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    BoardDrawing,
+    drawingKey,
+    DrawnArrow,
+    DrawnCircle,
+    EMPTY_DRAWING,
+    toggleArrow,
+    toggleCircle
+} from '../game/drawings';
+
+const STORAGE_KEY = 'chess-companion.drawings';
+
+export interface BoardDrawings {
+    /** Drawing of the position on the board. */
+    drawing: BoardDrawing;
+    toggleArrow: (arrow: DrawnArrow) => void;
+    toggleCircle: (circle: DrawnCircle) => void;
+    clear: () => void;
+}
+
+function loadDrawings(): Record<string, BoardDrawing> {
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Arrows and circles drawn by the user, kept per position in local storage so they
+ * come back whenever the position is on the board again, in any game.
+ */
+export function useBoardDrawings(fen: string): BoardDrawings {
+    const [drawings, setDrawings] = useState(loadDrawings);
+    const key = drawingKey(fen);
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(drawings));
+        } catch (error) {
+            console.error('Error saving drawings:', error);
+        }
+    }, [drawings]);
+
+    const update = useCallback((change: (drawing: BoardDrawing) => BoardDrawing) => {
+        setDrawings((prev) => {
+            const next = { ...prev };
+            const drawing = change(prev[key] ?? EMPTY_DRAWING);
+            if (drawing.arrows.length === 0 && drawing.circles.length === 0) delete next[key];
+            else next[key] = drawing;
+            return next;
+        });
+    }, [key]);
+
+    return {
+        drawing: drawings[key] ?? EMPTY_DRAWING,
+        toggleArrow: useCallback((arrow: DrawnArrow) => update((drawing) => toggleArrow(drawing, arrow)), [update]),
+        toggleCircle: useCallback((circle: DrawnCircle) => update((drawing) => toggleCircle(drawing, circle)), [update]),
+        clear: useCallback(() => update(() => EMPTY_DRAWING), [update]),
+    };
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { EngineError, EngineLine, EngineProvider, isAbortError } from '../engine';
+import { loadChess } from '../game/chess960';
+
+/** How often streamed engine output is pushed into React state. */
+const UPDATE_INTERVAL_MS = 200;
+
+export interface EngineAnalysisOptions {
+    enabled: boolean;
+    multiPv: number;
+    depth: number;
+}
+
+export interface EngineAnalysis {
+    /** Position the lines belong to; lags behind while a new search starts. */
+    fen: string | null;
+    lines: EngineLine[];
+    isRunning: boolean;
+    error: string | null;
+}
+
+const IDLE: EngineAnalysis = { fen: null, lines: [], isRunning: false, error: null };
+
+/**
+ * Continuously analyses `fen`, restarting whenever the position or settings change.
+ * Searches run in the background, so they never delay the auto side's moves.
+ */
+export function useEngineAnalysis(engine: EngineProvider, fen: string, { enabled, multiPv, depth }: EngineAnalysisOptions): EngineAnalysis {
+    const [analysis, setAnalysis] = useState<EngineAnalysis>(IDLE);
+
+    useEffect(() => {
+        if (!enabled || loadChess(fen).isGameOver()) {
+            setAnalysis(IDLE);
+            return;
+        }
+
+        const controller = new AbortController();
+        let lastUpdate = 0;
+        setAnalysis((prev) => ({ ...prev, isRunning: true, error: null }));
+
+        engine.analyse(fen, {
+            depth,
+            multiPv,
+            background: true,
+            signal: controller.signal,
+            timeoutMs: 0,
+            onUpdate: (lines) => {
+                const now = Date.now();
+                if (now - lastUpdate < UPDATE_INTERVAL_MS) return;
+                lastUpdate = now;
+                setAnalysis({ fen, lines, isRunning: true, error: null });
+            },
+        }).then((result) => {
+            setAnalysis({ fen, lines: result.lines, isRunning: false, error: null });
+        }).catch((error) => {
+            if (isAbortError(error)) return;
+            console.error('Analysis error:', error);
+            setAnalysis({ fen, lines: [], isRunning: false, error: error instanceof EngineError ? error.message : 'Analysis failed' });
+        });
+
+        return () => controller.abort();
+    }, [engine, fen, enabled, multiPv, depth]);
+
+    return analysis;
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GameChannel, isChannelSupported, openGameChannel, SpectatorSnapshot, switchRoute } from '../sync/gameChannel';
+
+export interface GameBroadcast {
+    supported: boolean;
+    /** Spectator tabs open, in the order they joined. */
+    spectators: string[];
+    /** Runs `prepare`, gives control to the spectator tab and turns this tab into a spectator. */
+    handOver: (tabId: string) => Promise<void>;
+}
+
+/**
+ * Shows the game to spectator tabs: `snapshot` is sent to them whenever it changes and
+ * to each new one as it opens. Nothing is sent while it is null.
+ */
+export function useGameBroadcast(snapshot: SpectatorSnapshot | null, prepare: () => Promise<void>): GameBroadcast {
+    const [spectators, setSpectators] = useState<string[]>([]);
+    const channelRef = useRef<GameChannel | null>(null);
+    const snapshotRef = useRef(snapshot);
+    snapshotRef.current = snapshot;
+    const supported = isChannelSupported();
+
+    useEffect(() => {
+        if (!supported) return;
+        const channel = openGameChannel((message) => {
+            if (message.type === 'hello') {
+                setSpectators((prev) => (prev.includes(message.tabId) ? prev : [...prev, message.tabId]));
+                if (snapshotRef.current) channel.post({ type: 'snapshot', snapshot: snapshotRef.current });
+            } else if (message.type === 'bye') {
+                setSpectators((prev) => prev.filter((tabId) => tabId !== message.tabId));
+            }
+        });
+        channelRef.current = channel;
+        channel.post({ type: 'roll-call' });
+        return () => {
+            channelRef.current = null;
+            channel.close();
+        };
+    }, [supported]);
+
+    useEffect(() => {
+        if (snapshot) channelRef.current?.post({ type: 'snapshot', snapshot });
+    }, [snapshot]);
+
+    const handOver = useCallback(async (tabId: string) => {
+        await prepare();
+        channelRef.current?.post({ type: 'hand-over', tabId });
+        switchRoute(true);
+    }, [prepare]);
+
+    return { supported, spectators, handOver };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { deleteGame, listGames, SavedGame, saveGame } from '../storage/gameDatabase';
+
+export interface GameLibrary {
+    games: SavedGame[];
+    error: string | null;
+    save: (game: SavedGame) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+}
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : 'Game library unavailable');
+
+/**
+ * Finished games stored in IndexedDB, reloaded after every change.
+ */
+export function useGameLibrary(): GameLibrary {
+    const [games, setGames] = useState<SavedGame[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setGames(await listGames());
+            setError(null);
+        } catch (error) {
+            console.error('Error loading game library:', error);
+            setError(describeError(error));
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const save = useCallback(async (game: SavedGame) => {
+        try {
+            await saveGame(game);
+            await refresh();
+        } catch (error) {
+            console.error('Error saving game:', error);
+            setError(describeError(error));
+        }
+    }, [refresh]);
+
+    const remove = useCallback(async (id: string) => {
+        try {
+            await deleteGame(id);
+            await refresh();
+        } catch (error) {
+            console.error('Error deleting game:', error);
+            setError(describeError(error));
+        }
+    }, [refresh]);
+
+    return { games, error, save, remove };
+}
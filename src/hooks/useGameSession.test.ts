@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { DEFAULT_POSITION } from 'chess.js';
+import { describe, expect, it, vi } from 'vitest';
+import { AnalysisResult, EngineCrashError } from '../engine';
+import { MockEngine } from '../engine/mockEngine';
+import { useGameSession } from './useGameSession';
+
+/** Engine whose worker has died: every request fails the same way. */
+class CrashedEngine extends MockEngine {
+    calls = 0;
+
+    async bestMove(): Promise<string> {
+        this.calls++;
+        throw new EngineCrashError(this.name, 'worker error');
+    }
+
+    async analyse(): Promise<AnalysisResult> {
+        this.calls++;
+        throw new EngineCrashError(this.name, 'worker error');
+    }
+}
+
+const OPTIONS = { active: true, engineUsesBook: false, engineUsesClock: false, defaultStrengthId: 'master' };
+
+describe('useGameSession', () => {
+    it('pauses the engine after a failed move instead of asking again', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const engine = new CrashedEngine();
+        const onError = vi.fn();
+        const { result } = renderHook(() => useGameSession(engine, { ...OPTIONS, onError }));
+
+        act(() => result.current.dispatch({ type: 'start', color: 'w', startFen: DEFAULT_POSITION, timeControl: null, gameId: 'game' }));
+        await waitFor(() => expect(result.current.session.autoPaused).toBe(true));
+        // Enough time for a retry loop to show up, were there one.
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(engine.calls).toBe(1);
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(onError).toHaveBeenCalledWith(expect.stringContaining('Mock engine'));
+        expect(result.current.isThinking).toBe(false);
+
+        act(() => result.current.dispatch({ type: 'play-from-here' }));
+        await waitFor(() => expect(result.current.session.autoPaused).toBe(true));
+        expect(engine.calls).toBe(2);
+    });
+
+    it('plays the engine side\'s move once it is due', async () => {
+        const { result } = renderHook(() => useGameSession(new MockEngine(), { ...OPTIONS, onError: vi.fn() }));
+
+        act(() => result.current.dispatch({ type: 'start', color: 'w', startFen: DEFAULT_POSITION, timeControl: null, gameId: 'game' }));
+        await waitFor(() => expect(result.current.view.moveHistory).toHaveLength(1));
+        expect(result.current.view.liveGame.turn()).toBe('b');
+        expect(result.current.session.autoPaused).toBe(false);
+    });
+});
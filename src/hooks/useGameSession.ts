@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import { EngineError, EngineProvider, isAbortError } from '../engine';
+import { draw } from '../game/result';
+import {
+    chooseEngineMove,
+    createGameSession,
+    GameSession,
+    GameSessionAction,
+    gameSessionReducer,
+    isAutoMoveDue,
+    SessionView,
+    viewSession
+} from '../game/session';
+
+const CLOCK_TICK_MS = 100;
+/** Pause before each move when engines play each other, so the game can be followed. */
+const ENGINE_VS_ENGINE_DELAY_MS = 600;
+
+export interface GameSessionOptions {
+    /** False while the game is put aside, e.g. for the position editor: the auto side waits and the clocks stop. */
+    active: boolean;
+    engineUsesBook: boolean;
+    engineUsesClock: boolean;
+    /** Strength the engines start at, until a saved session is loaded. */
+    defaultStrengthId: string;
+    onError: (message: string) => void;
+}
+
+export interface GameSessionController {
+    session: GameSession;
+    view: SessionView;
+    dispatch: (action: GameSessionAction) => void;
+    /** Whether the auto side is searching for its move. */
+    isThinking: boolean;
+    /** Time the clocks were last redrawn at. */
+    clockNow: number;
+    /** Cancels the auto side's search, if it is thinking. */
+    cancelAutoMove: () => void;
+}
+
+/**
+ * Runs a game session in React: holds its state, plays the auto side's moves with
+ * `engine` and keeps the clocks going. The rules themselves live in `game/session`.
+ */
+export function useGameSession(engine: EngineProvider, { active, engineUsesBook, engineUsesClock, defaultStrengthId, onError }: GameSessionOptions): GameSessionController {
+    const [session, dispatch] = useReducer(gameSessionReducer, undefined, () => createGameSession(crypto.randomUUID(), defaultStrengthId));
+    const view = useMemo(() => viewSession(session), [session]);
+    const [isThinking, setIsThinking] = useState(false);
+    const [clockNow, setClockNow] = useState(() => Date.now());
+    // The auto side's search in progress, cancelled on its own by takebacks.
+    const moveSearchRef = useRef<AbortController | null>(null);
+    const { moveTree, clock } = session;
+    const isLiveGameOver = view.liveOutcome !== null;
+    const liveTurn = view.liveGame.turn();
+
+    const cancelAutoMove = useCallback(() => {
+        moveSearchRef.current?.abort();
+        moveSearchRef.current = null;
+        setIsThinking(false);
+    }, []);
+
+    // Keeps the clocks on the side to move in the live game; moves press the clock as they are played.
+    useEffect(() => {
+        dispatch({ type: 'sync-clock', now: Date.now(), active });
+    }, [moveTree.liveId, liveTurn, isLiveGameOver, session.autoPaused, active]);
+
+    useEffect(() => {
+        if (!clock?.running) return;
+        const timer = setInterval(() => {
+            const now = Date.now();
+            setClockNow(now);
+            dispatch({ type: 'tick', now });
+        }, CLOCK_TICK_MS);
+        return () => clearInterval(timer);
+    }, [clock]);
+
+    useEffect(() => {
+        if (clock?.flagged) cancelAutoMove();
+    }, [clock?.flagged, cancelAutoMove]);
+
+    useEffect(() => {
+        if (!active || isThinking || !isAutoMoveDue(session, view)) return;
+        if (view.drawClaim) {
+            // The engine claims every draw it can: it only lets a position repeat or the game
+            // drag on when it sees nothing better.
+            dispatch({ type: 'declare', nodeId: moveTree.liveId, outcome: draw(view.drawClaim) });
+            return;
+        }
+
+        const controller = new AbortController();
+        moveSearchRef.current = controller;
+        const { signal } = controller;
+        const nodeId = moveTree.liveId;
+        setIsThinking(true);
+        (async () => {
+            try {
+                if (view.autoColors.length === 2) {
+                    await new Promise((resolve) => setTimeout(resolve, ENGINE_VS_ENGINE_DELAY_MS));
+                    if (signal.aborted) return;
+                }
+                const move = await chooseEngineMove(engine, session, { useBook: engineUsesBook, useClock: engineUsesClock, signal });
+                if (signal.aborted) return;
+                // Appended to the position it was computed for, even if the user browsed away meanwhile.
+                // Takebacks cancel the search, so that position is still where the game stands.
+                dispatch({ type: 'engine-move', nodeId, move, now: Date.now() });
+            } catch (error) {
+                if (isAbortError(error)) return;
+                console.error('Error calculating move:', error);
+                // Waits for the user to resume: asking again straight away would most likely fail the same way.
+                dispatch({ type: 'pause' });
+                onError(error instanceof EngineError ? error.message : 'Invalid AI move');
+            } finally {
+                if (!signal.aborted) setIsThinking(false);
+            }
+        })();
+    }, [engine, session, view, active, isThinking, engineUsesBook, engineUsesClock, moveTree.liveId, onError]);
+
+    return { session, view, dispatch, isThinking, clockNow, cancelAutoMove };
+}
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+
+/** Handlers by `KeyboardEvent.key`, e.g. `ArrowLeft` or `f`. */
+export type KeyboardShortcuts = Record<string, () => void>;
+
+/** Elements where keys belong to what is being typed rather than to the shortcuts. */
+const isTyping = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Calls the handler for each key pressed anywhere on the page, except while typing
+ * in a form field or holding Ctrl, Alt or Meta, so browser shortcuts keep working.
+ */
+export function useKeyboardShortcuts(shortcuts: KeyboardShortcuts, enabled: boolean) {
+    // Latest handlers, so the listener is not re-registered on every render.
+    const shortcutsRef = useRef(shortcuts);
+    shortcutsRef.current = shortcuts;
+
+    useEffect(() => {
+        if (!enabled) return;
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.ctrlKey || event.altKey || event.metaKey || isTyping(event.target)) return;
+            const handler = shortcutsRef.current[event.key];
+            if (!handler) return;
+            event.preventDefault();
+            handler();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [enabled]);
+}
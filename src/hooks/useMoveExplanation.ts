@@ -0,0 +1,44 @@
+import { useCallback, useState } from 'react';
+import { CoachError, CoachProvider, MoveContext } from '../coach';
+
+export interface MoveExplanation {
+    text: string | null;
+    isLoading: boolean;
+    error: string | null;
+    /** Asks the coach about the move; answers already given are not requested again. */
+    explain: () => void;
+}
+
+interface Entry {
+    text: string | null;
+    isLoading: boolean;
+    error: string | null;
+}
+
+const EMPTY: Entry = { text: null, isLoading: false, error: null };
+
+/**
+ * Explanation of the move in `context`, requested on demand. Answers are kept per
+ * coach and move, so going back to an explained move shows it again straight away.
+ */
+export function useMoveExplanation(coach: CoachProvider, context: MoveContext | null): MoveExplanation {
+    const [entries, setEntries] = useState<Record<string, Entry>>({});
+    const key = context ? `${coach.name}|${context.fen}|${context.san}` : null;
+    const entry = (key && entries[key]) || EMPTY;
+
+    const explain = useCallback(() => {
+        if (!context || !key) return;
+        if (entries[key]?.isLoading || entries[key]?.text) return;
+        const update = (value: Entry) => setEntries((prev) => ({ ...prev, [key]: value }));
+
+        update({ text: null, isLoading: true, error: null });
+        coach.explainMove(context).then((text) => {
+            update({ text, isLoading: false, error: null });
+        }).catch((error) => {
+            console.error('Coach error:', error);
+            update({ text: null, isLoading: false, error: error instanceof CoachError ? error.message : 'Could not explain the move' });
+        });
+    }, [coach, context, key, entries]);
+
+    return { ...entry, explain };
+}
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+import { MoveTree } from '../game/moveTree';
+
+/** Tones of each kind of move: frequencies in Hz played one after the other. */
+const TONES = {
+    move: [440],
+    capture: [330, 220],
+    check: [660, 880],
+} as const;
+const TONE_MS = 70;
+
+let audioContext: AudioContext | null = null;
+
+function playTones(frequencies: readonly number[]) {
+    if (typeof AudioContext === 'undefined') return;
+    audioContext ??= new AudioContext();
+    const start = audioContext.currentTime;
+    frequencies.forEach((frequency, index) => {
+        const context = audioContext as AudioContext;
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        const at = start + (index * TONE_MS) / 1000;
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.15, at);
+        gain.gain.exponentialRampToValueAtTime(0.001, at + TONE_MS / 1000);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(at);
+        oscillator.stop(at + TONE_MS / 1000);
+    });
+}
+
+const tonesOf = (san: string) => (/[+#]/.test(san) ? TONES.check : san.includes('x') ? TONES.capture : TONES.move);
+
+/**
+ * Plays a short sound for each move played in the live game, whoever made it. Takebacks,
+ * browsing and loading another game stay silent.
+ */
+export function useMoveSounds(moveTree: MoveTree, gameId: string, enabled: boolean) {
+    const previousRef = useRef({ gameId, liveId: moveTree.liveId });
+
+    useEffect(() => {
+        const previous = previousRef.current;
+        previousRef.current = { gameId, liveId: moveTree.liveId };
+        const live = moveTree.nodes[moveTree.liveId];
+        if (!enabled || previous.gameId !== gameId || live.parentId !== previous.liveId || !live.san) return;
+        try {
+            playTones(tonesOf(live.san));
+        } catch (error) {
+            console.warn('Could not play the move sound:', error);
+        }
+    }, [moveTree, gameId, enabled]);
+}
@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EngineError, EngineProvider, isAbortError } from '../engine';
+import { extractPuzzles, Puzzle } from '../game/puzzles';
+import { scheduleReview } from '../game/repetition';
+import { listPuzzles, SavedGame, savePuzzles, userColorOf } from '../storage/gameDatabase';
+
+/** Search depth for finding puzzles; a full review per game, so kept moderate. */
+const EXTRACTION_DEPTH = 14;
+
+export interface PuzzleCollection {
+    puzzles: Puzzle[];
+    error: string | null;
+    /** Saved games not searched for puzzles yet. */
+    pendingGames: SavedGame[];
+    /** 0-1 while searching games for puzzles, null otherwise. */
+    progress: number | null;
+    findPuzzles: () => void;
+    cancel: () => void;
+    /** Records an attempt and schedules the puzzle's next review. */
+    recordAttempt: (puzzle: Puzzle, solved: boolean) => void;
+}
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : 'Puzzles unavailable');
+
+/**
+ * Puzzles from the user's saved games, stored in IndexedDB. Games are searched on
+ * request, one after another, and marked through `updateGame` once done.
+ */
+export function usePuzzles(engine: EngineProvider, games: SavedGame[], updateGame: (game: SavedGame) => Promise<void>): PuzzleCollection {
+    const [puzzles, setPuzzles] = useState<Puzzle[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [progress, setProgress] = useState<number | null>(null);
+    const searchRef = useRef<AbortController | null>(null);
+    // Engine vs engine games have no user moves to learn from.
+    const pendingGames = games.filter((game) => !game.puzzlesExtracted && game.result !== '*' && game.mode !== 'engine-vs-engine');
+
+    useEffect(() => {
+        listPuzzles().then(setPuzzles).catch((error) => {
+            console.error('Error loading puzzles:', error);
+            setError(describeError(error));
+        });
+        return () => searchRef.current?.abort();
+    }, []);
+
+    const findPuzzles = async () => {
+        if (searchRef.current || pendingGames.length === 0) return;
+        const controller = new AbortController();
+        searchRef.current = controller;
+        setError(null);
+        setProgress(0);
+        // Attempts made on puzzles found before are kept.
+        const known = new Set(puzzles.map((puzzle) => puzzle.id));
+        try {
+            for (const [index, game] of pendingGames.entries()) {
+                const found = await extractPuzzles(engine, { ...game, userColor: userColorOf(game) }, {
+                    depth: EXTRACTION_DEPTH,
+                    signal: controller.signal,
+                    onProgress: (done, total) => setProgress((index + done / total) / pendingGames.length),
+                });
+                const fresh = found.filter((puzzle) => !known.has(puzzle.id));
+                await savePuzzles(fresh);
+                await updateGame({ ...game, puzzlesExtracted: true });
+                setPuzzles((prev) => [...prev, ...fresh]);
+            }
+        } catch (error) {
+            if (!isAbortError(error)) {
+                console.error('Error finding puzzles:', error);
+                setError(error instanceof EngineError ? error.message : describeError(error));
+            }
+        } finally {
+            searchRef.current = null;
+            setProgress(null);
+        }
+    };
+
+    const cancel = useCallback(() => searchRef.current?.abort(), []);
+
+    const recordAttempt = useCallback((puzzle: Puzzle, solved: boolean) => {
+        const updated = { ...puzzle, repetition: scheduleReview(puzzle.repetition, solved) };
+        setPuzzles((prev) => prev.map((candidate) => (candidate.id === puzzle.id ? updated : candidate)));
+        savePuzzles([updated]).catch((error) => {
+            console.error('Error saving puzzle:', error);
+            setError(describeError(error));
+        });
+    }, []);
+
+    return { puzzles, error, pendingGames, progress, findPuzzles, cancel, recordAttempt };
+}
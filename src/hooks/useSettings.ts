@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BoardThemeId, PieceSetId } from '../components/boardThemes';
+import { DEFAULT_STRENGTH_PROFILE_ID } from '../engine';
+
+const STORAGE_KEY = 'chess-companion.settings';
+
+export interface Settings {
+    boardTheme: BoardThemeId;
+    pieceSet: PieceSetId;
+    showCoordinates: boolean;
+    /** Hides the pieces; moves are still typed, clicked and announced. */
+    blindfold: boolean;
+    /** Largest board width in pixels; the board shrinks below it to fit the window. */
+    maxBoardWidth: number;
+    /** Duration of piece movement; 0 turns animation off. */
+    animationMs: number;
+    moveSounds: boolean;
+    /** Side at the bottom of the board: the one picked on the start screen, or always the same colour. */
+    orientation: 'player' | 'white' | 'black';
+    highlightLastMove: boolean;
+    highlightCheck: boolean;
+    showLegalMoves: boolean;
+    showBestMove: boolean;
+    showThreats: boolean;
+    /** Promotes to a queen without showing the piece picker. */
+    autoQueen: boolean;
+    /** Engine settings new sessions start with. */
+    strengthId: string;
+    engineUsesBook: boolean;
+    engineUsesClock: boolean;
+    analysisEnabled: boolean;
+    multiPv: number;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+    boardTheme: 'wood',
+    pieceSet: 'standard',
+    showCoordinates: true,
+    blindfold: false,
+    maxBoardWidth: 800,
+    animationMs: 300,
+    moveSounds: false,
+    orientation: 'player',
+    highlightLastMove: true,
+    highlightCheck: true,
+    showLegalMoves: true,
+    showBestMove: true,
+    showThreats: false,
+    autoQueen: false,
+    strengthId: DEFAULT_STRENGTH_PROFILE_ID,
+    engineUsesBook: false,
+    engineUsesClock: true,
+    analysisEnabled: true,
+    multiPv: 3,
+};
+
+export interface SettingsStore {
+    settings: Settings;
+    updateSettings: (change: Partial<Settings>) => void;
+}
+
+/** Stored settings over the defaults, so settings added later get their default. */
+function loadSettings(): Settings {
+    try {
+        return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') };
+    } catch {
+        return DEFAULT_SETTINGS;
+    }
+}
+
+/**
+ * User preferences kept in local storage. Changes made in another tab, such as the
+ * main window of a spectator tab, are picked up as they happen.
+ */
+export function useSettings(): SettingsStore {
+    const [settings, setSettings] = useState(loadSettings);
+
+    useEffect(() => {
+        const onStorage = (event: StorageEvent) => {
+            if (event.key === STORAGE_KEY) setSettings(loadSettings());
+        };
+        window.addEventListener('storage', onStorage);
+        return () => window.removeEventListener('storage', onStorage);
+    }, []);
+
+    // Writing back settings just read from another tab is harmless: an unchanged value fires no storage event.
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+        } catch (error) {
+            console.error('Error saving settings:', error);
+        }
+    }, [settings]);
+
+    const updateSettings = useCallback((change: Partial<Settings>) => {
+        setSettings((prev) => ({ ...prev, ...change }));
+    }, []);
+
+    return { settings, updateSettings };
+}
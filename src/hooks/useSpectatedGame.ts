@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { isChannelSupported, openGameChannel, SpectatorSnapshot, switchRoute } from '../sync/gameChannel';
+
+export interface SpectatedGame {
+    supported: boolean;
+    /** Latest state of the tab in control; null until it has sent one. */
+    snapshot: SpectatorSnapshot | null;
+}
+
+/**
+ * Follows the game played in another tab. When that tab hands control over to this
+ * one, it reloads as the tab in control.
+ */
+export function useSpectatedGame(): SpectatedGame {
+    const [snapshot, setSnapshot] = useState<SpectatorSnapshot | null>(null);
+    const [tabId] = useState(() => crypto.randomUUID());
+    const supported = isChannelSupported();
+
+    useEffect(() => {
+        if (!supported) return;
+        const channel = openGameChannel((message) => {
+            if (message.type === 'snapshot') setSnapshot(message.snapshot);
+            else if (message.type === 'roll-call') channel.post({ type: 'hello', tabId });
+            else if (message.type === 'hand-over' && message.tabId === tabId) switchRoute(false);
+        });
+        const leave = () => channel.post({ type: 'bye', tabId });
+        window.addEventListener('pagehide', leave);
+        channel.post({ type: 'hello', tabId });
+        return () => {
+            window.removeEventListener('pagehide', leave);
+            leave();
+            channel.close();
+        };
+    }, [supported, tabId]);
+
+    return { supported, snapshot };
+}
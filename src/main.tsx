@@ -1,10 +1,12 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import SpectatorView from './components/SpectatorView.tsx';
 import './index.css';
+import { isSpectatorRoute } from './sync/gameChannel';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isSpectatorRoute() ? <SpectatorView /> : <App />}
   </StrictMode>
 );
@@ -0,0 +1,33 @@
+import { DEFAULT_POSITION } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { SavedGame, userColorOf } from './gameDatabase';
+
+const game = (fields: Partial<SavedGame>): SavedGame => ({
+    id: 'game',
+    date: '2026-01-01T00:00:00.000Z',
+    startFen: DEFAULT_POSITION,
+    moveHistory: [],
+    result: '1-0',
+    strengthId: 'master',
+    timeControl: null,
+    opening: '',
+    pgn: '',
+    ...fields,
+});
+
+describe('userColorOf', () => {
+    it('reads the side the user picked in companion and hints only games', () => {
+        expect(userColorOf(game({ mode: 'companion', userColor: 'w' }))).toBe('w');
+        expect(userColorOf(game({ mode: 'hint', userColor: 'b' }))).toBe('b');
+    });
+
+    it('falls back on the side stored as the engine colour by older games', () => {
+        expect(userColorOf(game({ engineColor: 'b' }))).toBe('b');
+        expect(userColorOf(game({ mode: 'hint', engineColor: 'w' }))).toBe('w');
+    });
+
+    it('has no side in games between two people or two engines', () => {
+        expect(userColorOf(game({ mode: 'hotseat', engineColor: 'w' }))).toBeNull();
+        expect(userColorOf(game({ mode: 'engine-vs-engine' }))).toBeNull();
+    });
+});
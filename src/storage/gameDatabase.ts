@@ -0,0 +1,163 @@
+import { ClockState, TimeControl } from '../game/clock';
+import { MoveTree } from '../game/moveTree';
+import { DEFAULT_PLAYER_MODE, getPlayerMode, PlayerModeId } from '../game/players';
+import { Puzzle } from '../game/puzzles';
+import { DeclaredOutcome, GameResult, Termination } from '../game/result';
+
+/** A finished game kept in the library. */
+export interface SavedGame {
+    id: string;
+    /** ISO timestamp of when the game ended. */
+    date: string;
+    startFen: string;
+    moveHistory: string[];
+    result: GameResult;
+    /** How the game ended; missing in games saved before it was recorded. */
+    termination?: Termination;
+    /** Side the user picked, in companion and hints only games; read it with `userColorOf`. */
+    userColor?: 'w' | 'b';
+    /** Side picked on the start screen, in games saved before `userColor` was recorded. */
+    engineColor?: 'w' | 'b';
+    strengthId: string;
+    /** Strength of the engine playing Black in engine vs engine games. */
+    opponentStrengthId?: string;
+    /** Who played which side; companion mode when missing, as in games saved before modes existed. */
+    mode?: PlayerModeId;
+    timeControl: TimeControl | null;
+    /** Opening name when known, otherwise the first moves of the game. */
+    opening: string;
+    pgn: string;
+    /** Set once the game has been searched for puzzles. */
+    puzzlesExtracted?: boolean;
+}
+
+/**
+ * Side the user played in a saved game, or null when nobody picked one: games between
+ * two people or two engines.
+ */
+export function userColorOf(game: SavedGame): 'w' | 'b' | null {
+    if (!getPlayerMode(game.mode ?? DEFAULT_PLAYER_MODE).choosesColor) return null;
+    return game.userColor ?? game.engineColor ?? null;
+}
+
+/** The game in progress, restored when the page is reopened. */
+export interface SavedSession {
+    moveTree: MoveTree;
+    playerColor: 'w' | 'b' | null;
+    strengthId: string;
+    mode?: PlayerModeId;
+    /** Strength of the second engine in engine vs engine games. */
+    opponentStrengthId?: string;
+    timeControl: TimeControl | null;
+    /** Clock as of the last save, stopped. */
+    clock: ClockState | null;
+    /** Resignation or agreed or claimed draw that ended the game, at the live node it happened on. */
+    declaredOutcome?: DeclaredOutcome | null;
+    /** Library id the game will be stored under once it ends. */
+    gameId: string;
+}
+
+const DB_NAME = 'chess-companion';
+const DB_VERSION = 2;
+const GAMES_STORE = 'games';
+const PUZZLES_STORE = 'puzzles';
+const SESSION_STORE = 'session';
+const SESSION_KEY = 'current';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!database) {
+        database = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('This browser cannot store games (IndexedDB is unavailable)'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(GAMES_STORE)) {
+                    db.createObjectStore(GAMES_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(SESSION_STORE)) {
+                    db.createObjectStore(SESSION_STORE);
+                }
+                if (!db.objectStoreNames.contains(PUZZLES_STORE)) {
+                    db.createObjectStore(PUZZLES_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error('Could not open the game database'));
+        });
+        // Allow a later retry, e.g. after the user leaves private browsing.
+        database.catch(() => {
+            database = null;
+        });
+    }
+    return database;
+}
+
+/**
+ * Runs a single request in its own transaction and resolves with its result once committed.
+ */
+async function run<T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error ?? request.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Database transaction aborted'));
+    });
+}
+
+/**
+ * Runs several writes in one transaction and resolves once it has committed.
+ */
+async function runAll(storeName: string, operation: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, 'readwrite');
+        operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Database transaction aborted'));
+    });
+}
+
+/**
+ * All saved games, most recent first.
+ */
+export async function listGames(): Promise<SavedGame[]> {
+    const games = await run<SavedGame[]>(GAMES_STORE, 'readonly', (store) => store.getAll());
+    return games.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export async function saveGame(game: SavedGame): Promise<void> {
+    await run(GAMES_STORE, 'readwrite', (store) => store.put(game));
+}
+
+export async function deleteGame(id: string): Promise<void> {
+    await run(GAMES_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+export async function loadSession(): Promise<SavedSession | null> {
+    const session = await run<SavedSession | undefined>(SESSION_STORE, 'readonly', (store) => store.get(SESSION_KEY));
+    return session ?? null;
+}
+
+export async function saveSession(session: SavedSession): Promise<void> {
+    await run(SESSION_STORE, 'readwrite', (store) => store.put(session, SESSION_KEY));
+}
+
+export async function listPuzzles(): Promise<Puzzle[]> {
+    return run<Puzzle[]>(PUZZLES_STORE, 'readonly', (store) => store.getAll());
+}
+
+/**
+ * Stores puzzles in a single transaction, replacing any with the same id.
+ */
+export async function savePuzzles(puzzles: Puzzle[]): Promise<void> {
+    if (puzzles.length === 0) return;
+    await runAll(PUZZLES_STORE, (store) => puzzles.forEach((puzzle) => store.put(puzzle)));
+}
@@ -0,0 +1,67 @@
+import { Square } from 'chess.js';
+import { EngineScore } from '../engine';
+import { ClockState } from '../game/clock';
+import { SquarePair } from '../game/highlights';
+
+/**
+ * What a spectator tab shows: the board, move list, clocks and evaluation of the tab
+ * in control, as it shows them.
+ */
+export interface SpectatorSnapshot {
+    fen: string;
+    boardOrientation: 'white' | 'black';
+    lastMoveSquares: SquarePair | null;
+    checkSquare: Square | null;
+    startFen: string;
+    moveHistory: string[];
+    /** Index in `moveHistory` positions of the one on the board; 0 is the start. */
+    currentMoveIndex: number;
+    clock: ClockState | null;
+    /** White-relative evaluation; undefined when the analysis is off. */
+    evaluation?: EngineScore | null;
+    status: string;
+}
+
+export type GameChannelMessage =
+    | { type: 'snapshot'; snapshot: SpectatorSnapshot }
+    /** Sent by the tab in control when it opens, so spectators already open say hello. */
+    | { type: 'roll-call' }
+    | { type: 'hello'; tabId: string }
+    | { type: 'bye'; tabId: string }
+    /** Control passes to the tab `tabId`; the sender becomes a spectator. */
+    | { type: 'hand-over'; tabId: string };
+
+export interface GameChannel {
+    post: (message: GameChannelMessage) => void;
+    close: () => void;
+}
+
+const CHANNEL_NAME = 'chess-companion.game';
+const SPECTATOR_HASH = '#spectate';
+
+export const isChannelSupported = () => typeof BroadcastChannel !== 'undefined';
+
+/**
+ * Opens the channel shared by all tabs of the app. Messages posted here reach every
+ * other tab, never the sender.
+ */
+export function openGameChannel(onMessage: (message: GameChannelMessage) => void): GameChannel {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<GameChannelMessage>) => onMessage(event.data);
+    return {
+        post: (message) => channel.postMessage(message),
+        close: () => channel.close(),
+    };
+}
+
+export const isSpectatorRoute = () => window.location.hash === SPECTATOR_HASH;
+
+export const spectatorUrl = () => `${window.location.pathname}${window.location.search}${SPECTATOR_HASH}`;
+
+/**
+ * Reloads this tab as a spectator or as the tab in control, which restores the saved game.
+ */
+export function switchRoute(spectator: boolean) {
+    window.history.replaceState(null, '', spectator ? spectatorUrl() : `${window.location.pathname}${window.location.search}`);
+    window.location.reload();
+}
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Engine backend: `local` (default), `remote` or `mock`. */
+  readonly VITE_ENGINE_PROVIDER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}